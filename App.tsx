@@ -1,12 +1,39 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Message, Attachment, ChatSession, GeminiModelId, UserSettings } from './types';
+import React, { useState, useRef, useEffect, useCallback, useSyncExternalStore } from 'react';
+import { Message, Attachment, ChatSession, ModelId, ModelInfo, OpenAIEndpoint, ProviderId, TokenUsage, UserSettings, SavedPrompt, Persona, GenerationSettings, Grounding, Quiz, Flashcard, AnswerEvent, AnswerReport } from './types';
 import { ChatMessage } from './components/ChatMessage';
 import { ChatInput } from './components/ChatInput';
 import { SideMenu } from './components/SideMenu';
 import { WelcomeScreen } from './components/WelcomeScreen';
-import { sendMessageStream, resetChatSession, AVAILABLE_MODELS } from './services/gemini';
-import { Github, BookOpen, ZoomIn, ZoomOut, Menu, Plus, Edit3, Send, ChevronDown, Zap, BrainCircuit, Rabbit, AlertTriangle } from 'lucide-react';
-import { GenerateContentResponse } from '@google/genai';
+import { PersonaPicker } from './components/PersonaPicker';
+import { GenerationPanel } from './components/GenerationPanel';
+import { FlashcardReview } from './components/FlashcardReview';
+import { mergeContinuation, estimateContextTokens, estimateMessageTokens } from './services/gemini';
+import { mergeGrounding } from './services/grounding';
+import { QUIZ_SCHEMA, getQuizPrompt, parseQuiz, quizToMarkdown, createAttempt } from './services/quiz';
+import { loadProgressLog, recordAnswer, resolveAnswer, clearProgressLog, detectVerdict, getPracticePrompt, TopicStats } from './services/progress';
+import { FLASHCARD_SCHEMA, getFlashcardPrompt, parseFlashcards, addCards, getDueCards } from './services/flashcards';
+import { AVAILABLE_MODELS, THINKING_BUDGETS, clearModelCache, formatContextWindow } from './services/modelCatalog';
+import { buildModelChain, runWithFallback, DEFAULT_FALLBACK_CHAIN } from './services/fallback';
+import { applyContextSummary, dropOldAttachments, fitsContext, planCompression, getSummaryPrompt, withSummary, getContextWindow, CONTEXT_WARN_RATIO } from './services/contextWindow';
+import { loadUsageLog, recordUsage, clearUsageLog, addUsage, getDayCost, isExpensiveModel, formatCost } from './services/usage';
+import { loadSessions, saveSessions, flushSessions, loadFlashcards, saveFlashcards, revokeDroppedAttachments } from './services/storage';
+import { mergeSessions, ImportMode } from './services/backup';
+import { loadPrompts, savePrompts, createPrompt } from './services/prompts';
+import { loadPersonas, savePersonas, toSessionPersona } from './services/personas';
+import { conversationToMarkdown, conversationToHtml, downloadFile, getExportFileName, openPrintView } from './services/conversationExport';
+import { getActivePath, getBranchInfo, appendBranch, selectBranch, removeMessage } from './services/branches';
+import { sendMessageStream, continueMessageStream, startTurn, endTurn, abortTurn, abortAllTurns, subscribeToEngines, getBusySessionIds } from './services/chatEngine';
+import { getProvider, getProviderForModel, listAllModels, DEFAULT_PROVIDER_ID } from './services/provider';
+import { Github, BookOpen, ZoomIn, ZoomOut, Menu, Plus, Edit3, Send, ChevronDown, Zap, BrainCircuit, Rabbit, FlaskConical, Server, Eye, Mic, Lightbulb, RefreshCw, Gauge, AlertTriangle, FileDown, FileText, FileCode, Printer, GraduationCap, Globe, Layers } from 'lucide-react';
+
+// The chat's sampling and safety settings, as sent with each request. Every key is
+// present, so spreading the result over a session also clears the unset ones.
+const getGenerationSettings = (settings?: GenerationSettings): GenerationSettings => ({
+  temperature: settings?.temperature,
+  topP: settings?.topP,
+  maxOutputTokens: settings?.maxOutputTokens,
+  safetyThreshold: settings?.safetyThreshold
+});
 
 const App: React.FC = () => {
   // User Settings State
@@ -17,19 +44,55 @@ const App: React.FC = () => {
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
   
   // UI State
-  const [isLoading, setIsLoading] = useState(false);
+  const streamingSessionIds = useSyncExternalStore(subscribeToEngines, getBusySessionIds);
   const [zoomLevel, setZoomLevel] = useState(1);
   const [isSideMenuOpen, setIsSideMenuOpen] = useState(false);
   
+  // Prompt Library State
+  const [prompts, setPrompts] = useState<SavedPrompt[]>(() => loadPrompts());
+  const [promptToInsert, setPromptToInsert] = useState<SavedPrompt | null>(null);
+
+  // Custom tutor personas (built-in ones come from services/personas)
+  const [personas, setPersonas] = useState<Persona[]>(() => loadPersonas());
+
+  // Progress State: answers logged from widgets and A-D options, behind the progress dashboard
+  const [progressLog, setProgressLog] = useState<AnswerEvent[]>(() => loadProgressLog());
+  // Practice session to start once its new, empty session is current
+  const [pendingPractice, setPendingPractice] = useState<{ topic: string; prompt: string } | null>(null);
+
+  // Flashcards made from chats, across all decks (stored in IndexedDB)
+  const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
+  const [isFlashcardsOpen, setIsFlashcardsOpen] = useState(false);
+
+  // Usage State: per-day token log behind the usage dashboard and the budget check
+  const [usageLog, setUsageLog] = useState(() => loadUsageLog());
+
+  // Search State: message to scroll to and flash after a search jump
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
   // Model State
-  const [selectedModel, setSelectedModel] = useState<GeminiModelId>('gemini-3-pro-preview');
+  const [selectedModel, setSelectedModel] = useState<ModelId>('gemini-3-pro-preview');
+  const [availableModels, setAvailableModels] = useState<ModelInfo[]>(AVAILABLE_MODELS);
   const [isModelMenuOpen, setIsModelMenuOpen] = useState(false);
+  const [isRefreshingModels, setIsRefreshingModels] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
 
-  // Derived State (Current Messages)
+  // Derived State (Current Messages: the selected branch of the conversation tree)
   const currentSession = sessions.find(s => s.id === currentSessionId);
-  const messages = currentSession?.messages || [];
+  const messages = currentSession ? getActivePath(currentSession) : [];
+  const branchInfo = currentSession ? getBranchInfo(currentSession) : new Map();
+  const isLoading = !!currentSessionId && streamingSessionIds.includes(currentSessionId);
+  const providerId = userSettings?.providerId || DEFAULT_PROVIDER_ID;
 
-  const stopGenerationRef = useRef(false);
+  // Set once stored sessions are loaded, so the empty initial state is never saved over them
+  const sessionsLoadedRef = useRef(false);
+  const previousSessionsRef = useRef<ChatSession[]>([]);
+  const flashcardsLoadedRef = useRef(false);
+  // Latest flashcards, ahead of the next render; every change goes through updateFlashcards
+  const flashcardsRef = useRef<Flashcard[]>([]);
+
+  // A-D answers waiting for the tutor's verdict, by session id: answer event id
+  const pendingAnswersRef = useRef<Map<string, string>>(new Map());
   
   // --- Initialization & Auto-Save Logic ---
 
@@ -45,45 +108,171 @@ const App: React.FC = () => {
     }
   }, []);
 
-  // 2. Load Sessions from LocalStorage on Mount
+  // 2. Load Sessions from IndexedDB on Mount (migrates old localStorage data)
   useEffect(() => {
-    const savedSessions = localStorage.getItem('ayat_chat_sessions');
-    if (savedSessions) {
-      try {
-        const parsed: ChatSession[] = JSON.parse(savedSessions);
+    loadSessions()
+      .then(loaded => {
+        sessionsLoadedRef.current = true;
         // Sort by updatedAt desc
-        parsed.sort((a, b) => b.updatedAt - a.updatedAt);
-        setSessions(parsed);
-        if (parsed.length > 0) {
-          setCurrentSessionId(parsed[0].id);
+        loaded.sort((a, b) => b.updatedAt - a.updatedAt);
+        setSessions(loaded);
+        if (loaded.length > 0) {
+          setCurrentSessionId(loaded[0].id);
         } else {
           createNewSession();
         }
-      } catch (e) {
-        console.error("Failed to parse sessions", e);
+      })
+      .catch(e => {
+        console.error("Failed to load sessions", e);
+        // Still save from here on: writes only add to what is stored, so nothing saved before is lost
+        sessionsLoadedRef.current = true;
         createNewSession();
-      }
-    } else {
-      createNewSession();
-    }
+        alert("Could not load your saved chats: " + (e?.message || "storage is unavailable") + ". New chats may not be saved.");
+      });
   }, []);
 
-  // 3. Auto-Save Sessions to LocalStorage whenever they change
+  // Load flashcards alongside the sessions
   useEffect(() => {
-    if (sessions.length > 0) {
-      localStorage.setItem('ayat_chat_sessions', JSON.stringify(sessions));
+    loadFlashcards()
+      .then(loaded => {
+        flashcardsLoadedRef.current = true;
+        updateFlashcards(current => [...loaded, ...current]);
+      })
+      .catch(e => console.error("Failed to load flashcards", e));
+  }, []);
+
+  useEffect(() => {
+    if (flashcardsLoadedRef.current) {
+      saveFlashcards(flashcards);
+    }
+  }, [flashcards]);
+
+  // Send a practice prompt into its new, empty session
+  useEffect(() => {
+    if (!pendingPractice || !currentSession || currentSession.messages.length > 0) return;
+    setPendingPractice(null);
+    updateSession(currentSession.id, s => ({ ...s, practiceTopic: pendingPractice.topic }));
+    handleSend(pendingPractice.prompt, [], []);
+  }, [pendingPractice, currentSessionId]);
+
+  // 3. Auto-Save Sessions (debounced) whenever they change
+  useEffect(() => {
+    if (sessionsLoadedRef.current) {
+      saveSessions(sessions);
     }
+    // Deleted, replaced or reloaded sessions free their attachment previews
+    revokeDroppedAttachments(previousSessionsRef.current, sessions);
+    previousSessionsRef.current = sessions;
   }, [sessions]);
 
+  // 4. Persist the prompt library whenever it changes
+  useEffect(() => {
+    savePrompts(prompts);
+  }, [prompts]);
+
+  // Persist custom personas whenever they change
+  useEffect(() => {
+    savePersonas(personas);
+  }, [personas]);
+
+  // 5. Scroll a search result into view once its session has rendered
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    // Runs after ChatMessage's own "scroll to last message" on mount
+    const scrollTimer = setTimeout(() => {
+      document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 350);
+    const clearTimer = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => {
+      clearTimeout(scrollTimer);
+      clearTimeout(clearTimer);
+    };
+  }, [highlightedMessageId, currentSessionId]);
+
+  // 6. Load the models of the main provider and the custom endpoints (cached), keeping the selection when it still exists
+  useEffect(() => {
+    if (!userSettings) return;
+    let cancelled = false;
+    listAllModels(userSettings).then(models => {
+      if (!cancelled) applyModelList(models);
+    });
+    return () => { cancelled = true; };
+  }, [userSettings?.apiKey, userSettings?.providerId, userSettings?.endpoints]);
+
+  // 7. Flush pending writes when the tab is hidden or closed
+  useEffect(() => {
+    const flush = () => { flushSessions(); };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    window.addEventListener('beforeunload', flush);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      window.removeEventListener('beforeunload', flush);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, []);
+
+  const applyModelList = (models: ModelInfo[]) => {
+    if (models.length === 0) return;
+    setAvailableModels(models);
+    setSelectedModel(prev => models.some(m => m.id === prev) ? prev : models[0].id);
+  };
+
+  const handleRefreshModels = async () => {
+    if (!userSettings) return;
+    setIsRefreshingModels(true);
+    try {
+      applyModelList(await listAllModels(userSettings, true));
+    } finally {
+      setIsRefreshingModels(false);
+    }
+  };
+
   const handleLogout = () => {
     if (window.confirm("Are you sure you want to sign out? This will remove your API Key from this browser.")) {
       localStorage.removeItem('ayat_user_settings');
+      clearModelCache();
       setUserSettings(null);
-      resetChatSession();
+      abortAllTurns();
       setIsSideMenuOpen(false);
     }
   };
 
+  const updateUserSettings = (settings: UserSettings) => {
+    localStorage.setItem('ayat_user_settings', JSON.stringify(settings));
+    setUserSettings(settings);
+  };
+
+  const handleProviderChange = (id: ProviderId) => {
+    if (!userSettings) return;
+    if (getProvider(id).requiresApiKey && !userSettings.apiKey) {
+      alert("This provider needs an API Key. Sign out and enter your key to use it.");
+      return;
+    }
+    updateUserSettings({ ...userSettings, providerId: id });
+  };
+
+  const handleEndpointsChange = (endpoints: OpenAIEndpoint[]) => {
+    if (!userSettings) return;
+    updateUserSettings({ ...userSettings, endpoints });
+  };
+
+  const handleFallbackChainChange = (fallbackChain: ModelId[]) => {
+    if (!userSettings) return;
+    updateUserSettings({ ...userSettings, fallbackChain });
+  };
+
+  const handleBudgetChange = (dailyBudgetUsd: number | undefined) => {
+    if (!userSettings) return;
+    updateUserSettings({ ...userSettings, dailyBudgetUsd });
+  };
+
+  const handleClearUsage = () => {
+    clearUsageLog();
+    setUsageLog({});
+  };
+
   // --- Session Management ---
 
   const createNewSession = () => {
@@ -95,14 +284,13 @@ const App: React.FC = () => {
     };
     setSessions(prev => [newSession, ...prev]);
     setCurrentSessionId(newSession.id);
-    resetChatSession();
     setIsSideMenuOpen(false);
   };
 
   const deleteSession = (id: string) => {
     const newSessions = sessions.filter(s => s.id !== id);
     setSessions(newSessions);
-    localStorage.setItem('ayat_chat_sessions', JSON.stringify(newSessions)); // Force save immediately
+    abortTurn(id);
     
     if (currentSessionId === id) {
       if (newSessions.length > 0) {
@@ -113,29 +301,68 @@ const App: React.FC = () => {
     }
   };
 
+  const handleImportSessions = (imported: ChatSession[], mode: ImportMode) => {
+    const merged = mergeSessions(sessions, imported, mode);
+    setSessions(merged);
+
+    // Sessions that were removed or overwritten stop any in-flight reply
+    const mergedById = new Map(merged.map(s => [s.id, s] as [string, ChatSession]));
+    sessions.forEach(s => {
+      if (mergedById.get(s.id) !== s) abortTurn(s.id);
+    });
+
+    if (merged.length === 0) {
+      createNewSession();
+    } else if (!merged.some(s => s.id === currentSessionId)) {
+      setCurrentSessionId(merged[0].id);
+    }
+    setIsSideMenuOpen(false);
+  };
+
   const updateSessionTitle = (id: string, newTitle: string) => {
     setSessions(prev => prev.map(s => 
       s.id === id ? { ...s, title: newTitle, updatedAt: Date.now() } : s
     ));
   };
 
-  const updateCurrentMessages = (newMessages: Message[]) => {
-    if (!currentSessionId) return;
-    
-    setSessions(prev => prev.map(s => {
-      if (s.id === currentSessionId) {
-        // Auto-generate title from first user message if it's "New Chat"
-        let title = s.title;
-        if (s.messages.length === 0 && newMessages.length > 0 && s.title.includes('New Chat')) {
-           const firstMsg = newMessages.find(m => m.role === 'user');
-           if (firstMsg) {
-             title = firstMsg.text.slice(0, 30) + (firstMsg.text.length > 30 ? '...' : '');
-           }
-        }
-        return { ...s, messages: newMessages, title, updatedAt: Date.now() };
+  const updateSession = (sessionId: string, update: (session: ChatSession) => ChatSession) => {
+    setSessions(prev => prev.map(s => s.id === sessionId ? update(s) : s));
+  };
+
+  // Add turns under `parentId` as the newly selected branch of a session
+  const appendSessionBranch = (sessionId: string, parentId: string | null, newMessages: Message[]) => {
+    updateSession(sessionId, s => {
+      // Auto-generate title from first user message if it's "New Chat"
+      let title = s.title;
+      if (s.messages.length === 0 && s.title.includes('New Chat')) {
+         const firstMsg = newMessages.find(m => m.role === 'user');
+         if (firstMsg) {
+           title = firstMsg.text.slice(0, 30) + (firstMsg.text.length > 30 ? '...' : '');
+         }
       }
-      return s;
-    }));
+      return { ...appendBranch(s, parentId, newMessages), title, updatedAt: Date.now() };
+    });
+  };
+
+  // Patch a single message of a specific session, even if the user has switched away from it
+  const updateSessionMessage = (sessionId: string, messageId: string, update: (msg: Message) => Message) => {
+    updateSession(sessionId, s => ({ ...s, messages: s.messages.map(m => m.id === messageId ? update(m) : m) }));
+  };
+
+  // Counts a finished request on its reply's chat and in the daily log
+  const recordSessionUsage = (sessionId: string, modelId: ModelId, usage: TokenUsage | undefined) => {
+    if (!usage) return;
+    updateSession(sessionId, s => ({ ...s, usage: addUsage(s.usage, usage) }));
+    setUsageLog(recordUsage(modelId, usage));
+  };
+
+  // Soft budget: past today's budget, sending to an expensive model needs a confirmation
+  const confirmBudget = (modelId: ModelId): boolean => {
+    const budget = userSettings?.dailyBudgetUsd;
+    if (!budget || !isExpensiveModel(modelId)) return true;
+    const spent = getDayCost(usageLog);
+    if (spent < budget) return true;
+    return window.confirm(`Today's estimated spend is ${formatCost(spent)}, over your ${formatCost(budget)} daily budget. Send this message to ${getModelName(modelId)} anyway?`);
   };
 
   // --- Chat Logic ---
@@ -144,58 +371,128 @@ const App: React.FC = () => {
   const handleZoomOut = () => setZoomLevel(prev => Math.max(prev - 0.1, 0.8));
 
   const handleStop = () => {
-    stopGenerationRef.current = true;
-    setIsLoading(false);
-    
-    // Finalize the last message in the current session
-    if (currentSessionId) {
-       setSessions(prev => prev.map(s => {
-         if (s.id === currentSessionId) {
-            const updatedMsgs = s.messages.map(msg => 
-               msg.isStreaming ? { ...msg, isStreaming: false, text: msg.text + "..." } : msg
-            );
-            return { ...s, messages: updatedMsgs };
-         }
-         return s;
-       }));
-    }
+    if (!currentSessionId) return;
+    // Aborts the HTTP stream; handleSend then finalizes the message as stopped
+    abortTurn(currentSessionId);
+  };
+
+  const handleDeleteMessage = (messageId: string) => {
+    if (!currentSessionId) return;
+    updateSession(currentSessionId, s => removeMessage(s, messageId));
   };
 
-  const handleDeleteMessage = (index: number) => {
-    const updated = messages.filter((_, i) => i !== index);
-    updateCurrentMessages(updated);
+  const handleSwitchBranch = (messageId: string, direction: -1 | 1) => {
+    const info = branchInfo.get(messageId);
+    if (!currentSessionId || !info) return;
+    const target = info.siblingIds[info.index + direction];
+    if (target) updateSession(currentSessionId, s => selectBranch(s, target));
   };
 
+  // Regenerate the reply to a user turn as a new sibling branch, keeping the old reply.
+  // Called on a failed reply, the error turn is dropped instead of kept as a branch.
   const handleResend = (index: number) => {
-    const msgToResend = messages[index];
-    const updated = messages.slice(0, index);
-    updateCurrentMessages(updated);
-    handleSend(msgToResend.text, msgToResend.attachments || []);
+    if (!currentSessionId) return;
+    const target = messages[index];
+    const userIndex = target.role === 'user' ? index : index - 1;
+    if (userIndex < 0) return;
+
+    if (target.error) {
+      updateSession(currentSessionId, s => removeMessage(s, target.id));
+    }
+    runTurn(messages.slice(0, userIndex), messages[userIndex], false);
   };
 
-  const handleSend = async (text: string, attachments: Attachment[] | boolean = []) => {
-    if (!userSettings?.apiKey) return;
+  // Editing a user turn branches from its parent; the original turn and its replies stay reachable
+  const handleEdit = (index: number, newText: string) => {
+    const original = messages[index];
+    const editedMessage: Message = {
+      ...original,
+      id: Date.now().toString(),
+      text: newText,
+      modelId: selectedModel
+    };
+    runTurn(messages.slice(0, index), editedMessage, true);
+  };
 
+  const handleSend = (text: string, attachments: Attachment[] | boolean = [], baseMessages: Message[] = messages, useSearch = false) => {
     const hidden = typeof attachments === 'boolean' ? attachments : false;
     const files = Array.isArray(attachments) ? attachments : [];
 
-    stopGenerationRef.current = false;
-
-    // 1. Add User Message
     const userMessage: Message = {
       id: Date.now().toString(),
       role: 'user',
       text: text,
       isHidden: hidden,
       attachments: files,
-      modelId: selectedModel
+      modelId: selectedModel,
+      useSearch: useSearch || undefined
     };
+    runTurn(baseMessages, userMessage, true);
+  };
+
+  // Shapes the history sent with `userMessage` to fit the selected model's context window:
+  // stored summaries replace the turns they cover, then older attachments are left out,
+  // then the oldest turns are summarized by the model (and the summary kept on the session).
+  // Stopping the turn (`signal`) cancels the summary request too.
+  const prepareRequestHistory = async (sessionId: string, history: Message[], userMessage: Message, botMessageId: string, signal: AbortSignal): Promise<Message[]> => {
+    if (!userSettings) return history;
+    const session = sessions.find(s => s.id === sessionId);
+    const contextWindow = getContextWindow(availableModels.find(m => m.id === selectedModel));
+    const newTurnTokens = estimateMessageTokens(userMessage);
+
+    let prepared = applyContextSummary(history, session?.contextSummaries);
+    if (fitsContext(prepared, newTurnTokens, selectedModel, contextWindow)) return prepared;
+
+    prepared = dropOldAttachments(prepared);
+    if (fitsContext(prepared, newTurnTokens, selectedModel, contextWindow)) return prepared;
 
-    const newMessagesWithUser = [...messages, userMessage];
-    updateCurrentMessages(newMessagesWithUser); // Save to state/LS
-    setIsLoading(true);
+    const plan = planCompression(prepared, newTurnTokens, selectedModel, contextWindow);
+    if (!plan) return prepared;
 
-    // 2. Add Bot Placeholder
+    updateSessionMessage(sessionId, botMessageId, m => ({ ...m, statusNotice: 'Summarizing earlier turns to fit the context window...' }));
+    try {
+      const response = await getProviderForModel(selectedModel, userSettings).sendMessage({
+        modelId: selectedModel,
+        apiKey: userSettings.apiKey,
+        history: [],
+        message: getSummaryPrompt(plan.toSummarize),
+        signal
+      });
+      recordSessionUsage(sessionId, selectedModel, response.usage);
+      if (!response.text.trim()) return prepared;
+
+      const coveredId = plan.toSummarize[plan.toSummarize.length - 1].id;
+      updateSession(sessionId, s => ({ ...s, contextSummaries: { ...s.contextSummaries, [coveredId]: response.text } }));
+      return withSummary(plan, response.text);
+    } catch (error) {
+      // Sending the full history may still work; the model reports it if not
+      console.error("Failed to summarize earlier turns", error);
+      return prepared;
+    } finally {
+      updateSessionMessage(sessionId, botMessageId, m => ({ ...m, statusNotice: undefined }));
+    }
+  };
+
+  // Streams a model reply to `userMessage`. `history` is the branch before the user turn;
+  // with `isNewUserTurn` the user turn is added to the tree too, otherwise it already exists
+  // and the reply becomes a new sibling of its earlier replies.
+  const runTurn = async (history: Message[], userMessage: Message, isNewUserTurn: boolean) => {
+    if (!userSettings || !currentSessionId) return;
+
+    // Pin the target session: the user may switch chats while this one streams
+    const sessionId = currentSessionId;
+    if (streamingSessionIds.includes(sessionId)) return;
+    if (!confirmBudget(selectedModel)) return;
+
+    const signal = startTurn(sessionId, selectedModel);
+    if (!signal) return;
+
+    // An A-D answer clicked just before; this reply tells whether it was right. Taken only
+    // now, so a send that was blocked leaves it for the next reply.
+    const answerEventId = pendingAnswersRef.current.get(sessionId);
+    pendingAnswersRef.current.delete(sessionId);
+
+    // Add Bot Placeholder (and the user turn) as the selected branch
     const botMessageId = (Date.now() + 1).toString();
     const initialBotMessage: Message = {
       id: botMessageId,
@@ -205,85 +502,335 @@ const App: React.FC = () => {
       modelId: selectedModel
     };
 
-    const newMessagesWithBot = [...newMessagesWithUser, initialBotMessage];
-    updateCurrentMessages(newMessagesWithBot);
+    if (isNewUserTurn) {
+      appendSessionBranch(sessionId, history[history.length - 1]?.id ?? null, [userMessage, initialBotMessage]);
+    } else {
+      appendSessionBranch(sessionId, userMessage.id, [initialBotMessage]);
+    }
+
+    // Busy or rate-limited models are retried, then the turn moves down the fallback chain
+    const chain = buildModelChain(selectedModel, userSettings.fallbackChain)
+      .filter(id => id === selectedModel || availableModels.some(m => m.id === id));
+
+    let fullText = '';
+    let thoughts = '';
+    let finishReason: string | undefined;
+    let usage: TokenUsage | undefined;
+    let blockReason: string | undefined;
+    let grounding: Grounding | undefined;
+    const session = sessions.find(s => s.id === sessionId);
+    const isQuizTurn = !!userMessage.quizRequest;
 
     try {
-      const streamResult = await sendMessageStream(text, files, selectedModel, userSettings.apiKey);
-      
-      let fullText = '';
+      const requestHistory = await prepareRequestHistory(sessionId, history, userMessage, botMessageId, signal);
+      // Stopped while earlier turns were being summarized: the turn itself is never sent
+      if (signal.aborted) {
+        updateSessionMessage(sessionId, botMessageId, m => ({ ...m, isStreaming: false, isStopped: true, statusNotice: undefined }));
+        return;
+      }
+
+      const result = await runWithFallback(chain, async (modelId) => {
+        fullText = '';
+        thoughts = '';
+        finishReason = undefined;
+        blockReason = undefined;
+        grounding = undefined;
+        usage = undefined;
+
+        const streamResult = await sendMessageStream(sessionId, getProviderForModel(modelId, userSettings), {
+          modelId,
+          apiKey: userSettings.apiKey,
+          history: requestHistory,
+          message: userMessage.text,
+          attachments: userMessage.attachments || [],
+          thinkingBudget: session?.thinkingBudget,
+          instructions: session?.persona?.instructions,
+          ...getGenerationSettings(session),
+          // Search cannot be combined with JSON mode
+          useSearch: isQuizTurn ? undefined : userMessage.useSearch,
+          responseSchema: isQuizTurn ? QUIZ_SCHEMA : undefined
+        });
+
+        let lastUpdateTime = 0;
+
+        for await (const chunk of streamResult) {
+          const chunkText = chunk.text || ''; 
+          fullText += chunkText;
+          thoughts += chunk.thought || '';
+          blockReason = chunk.blockReason ?? blockReason;
+          grounding = mergeGrounding(grounding, chunk.grounding);
+          finishReason = chunk.finishReason ?? finishReason;
+          usage = chunk.usage ?? usage;
+
+          const now = Date.now();
+          // Throttled update to avoid lag
+          if (now - lastUpdateTime > 50) {
+             // A quiz streams as raw JSON: it is only shown once complete
+             updateSessionMessage(sessionId, botMessageId, m => ({
+               ...m,
+               text: isQuizTurn ? '' : fullText,
+               thoughts: thoughts || undefined,
+               statusNotice: isQuizTurn ? 'جاري تحضير الاختبار... (Preparing quiz)' : undefined
+             }));
+             lastUpdateTime = now;
+          }
+        }
+      }, (status) => {
+        const modelName = getModelName(status.modelId);
+        const seconds = Math.round(status.delayMs / 1000);
+        const statusNotice = status.isFallback
+          ? `${status.reason}: switching to ${modelName}...`
+          : `${status.reason}: retrying in ${seconds}s...`;
+        updateSessionMessage(sessionId, botMessageId, m => ({ ...m, text: '', thoughts: undefined, modelId: status.modelId, statusNotice }));
+      }, signal);
+
+      // Final update
+      const isStopped = signal.aborted;
+
+      // A quiz turn only succeeds with a complete, valid quiz
+      let quiz: Quiz | undefined;
+      let quizError: string | undefined;
+      if (isQuizTurn && !blockReason) {
+        try {
+          if (isStopped) throw new Error("Stopped before the quiz was complete");
+          quiz = parseQuiz(fullText);
+        } catch (e: any) {
+          quizError = e.message;
+        }
+      }
+
+      updateSessionMessage(sessionId, botMessageId, m => ({
+        ...m,
+        text: quiz ? quizToMarkdown(quiz) : quizError ? `Could not create the quiz: ${quizError}` : isQuizTurn ? '' : fullText,
+        error: quizError ? true : undefined,
+        quiz,
+        thoughts: thoughts || undefined,
+        isStreaming: false,
+        isStopped,
+        finishReason,
+        modelId: result.modelId,
+        fallbackFrom: result.modelId !== selectedModel ? selectedModel : undefined,
+        fallbackReason: result.modelId !== selectedModel ? result.reason : undefined,
+        statusNotice: undefined,
+        blockReason,
+        grounding,
+        usage
+      }));
+      recordSessionUsage(sessionId, result.modelId, usage);
+
+      const verdict = answerEventId ? detectVerdict(fullText) : undefined;
+      if (answerEventId && verdict !== undefined) {
+        setProgressLog(resolveAnswer(answerEventId, verdict));
+      }
+
+    } catch (error: any) {
+      console.error("Chat error:", error);
+      updateSessionMessage(sessionId, botMessageId, m => ({ ...m, text: m.text + "\n(Connection Error: " + (error.message || "Unknown") + ")", error: true, isStreaming: false, statusNotice: undefined }));
+    } finally {
+      endTurn(sessionId, signal);
+    }
+  };
+
+  // Resume a stopped or truncated model reply, appending to the same message
+  const handleContinue = async (index: number) => {
+    if (!userSettings || !currentSessionId) return;
+
+    const sessionId = currentSessionId;
+    if (streamingSessionIds.includes(sessionId)) return;
+
+    const target = messages[index];
+    const history = [...applyContextSummary(messages.slice(0, index), currentSession?.contextSummaries), target];
+    const modelId = target.modelId || selectedModel;
+    if (!confirmBudget(modelId)) return;
+    const partialText = target.text;
+    const partialThoughts = target.thoughts;
+
+    const signal = startTurn(sessionId, modelId);
+    if (!signal) return;
+
+    updateSessionMessage(sessionId, target.id, m => ({ ...m, isStreaming: true, isStopped: false }));
+
+    let fullText = partialText;
+    let thoughts = partialThoughts;
+    try {
+      const streamResult = await continueMessageStream(sessionId, getProviderForModel(modelId, userSettings), {
+        modelId,
+        apiKey: userSettings.apiKey,
+        history,
+        thinkingBudget: currentSession?.thinkingBudget,
+        instructions: currentSession?.persona?.instructions,
+        ...getGenerationSettings(currentSession)
+      });
+
+      let continuation = '';
+      let continuationThoughts = '';
+      let finishReason: string | undefined;
+      let usage: TokenUsage | undefined;
+      let blockReason: string | undefined;
       let lastUpdateTime = 0;
-      
-      for await (const chunk of streamResult) {
-        if (stopGenerationRef.current) break;
 
-        const responseChunk = chunk as GenerateContentResponse;
-        const chunkText = responseChunk.text || ''; 
-        fullText += chunkText;
+      for await (const chunk of streamResult) {
+        continuation += chunk.text || '';
+        blockReason = chunk.blockReason ?? blockReason;
+        fullText = mergeContinuation(partialText, continuation);
+        continuationThoughts += chunk.thought || '';
+        if (continuationThoughts) thoughts = partialThoughts ? `${partialThoughts}\n\n${continuationThoughts}` : continuationThoughts;
+        finishReason = chunk.finishReason ?? finishReason;
+        usage = chunk.usage ?? usage;
 
         const now = Date.now();
-        // Throttled update to avoid lag
         if (now - lastUpdateTime > 50) {
-           setSessions(prev => prev.map(s => {
-             if (s.id === currentSessionId) {
-               return {
-                 ...s,
-                 messages: s.messages.map(m => m.id === botMessageId ? { ...m, text: fullText } : m)
-               };
-             }
-             return s;
-           }));
+           updateSessionMessage(sessionId, target.id, m => ({ ...m, text: fullText, thoughts }));
            lastUpdateTime = now;
         }
       }
 
-      // Final update
-      setSessions(prev => prev.map(s => {
-         if (s.id === currentSessionId) {
-           return {
-             ...s,
-             messages: s.messages.map(m => m.id === botMessageId ? { ...m, text: fullText, isStreaming: false } : m)
-           };
-         }
-         return s;
-       }));
-
+      const isStopped = signal.aborted;
+      updateSessionMessage(sessionId, target.id, m => ({ ...m, text: fullText, thoughts, isStreaming: false, isStopped, finishReason, blockReason, usage: usage ? addUsage(m.usage, usage) : m.usage }));
+      recordSessionUsage(sessionId, modelId, usage);
     } catch (error: any) {
-      console.error("Chat error:", error);
-      
-      // AUTO-FALLBACK LOGIC
-      const isQuotaError = error.message?.includes('429') || error.message?.includes('quota') || error.message?.includes('exhausted');
-      
-      if (isQuotaError && selectedModel === 'gemini-3-pro-preview') {
-         // Auto switch to Flash and inform user
-         setSelectedModel('gemini-2.5-flash');
-         setSessions(prev => prev.map(s => {
-           if (s.id === currentSessionId) {
-             return {
-               ...s,
-               messages: s.messages.map(m => m.id === botMessageId ? { 
-                 ...m, 
-                 text: `⚠️ **High Traffic on Pro Model**\nSwitching to **Gemini 2.5 Flash** for unlimited speed...\n\n(Please retry your last message)`, 
-                 error: true, 
-                 isStreaming: false 
-               } : m)
-             };
-           }
-           return s;
-         }));
+      console.error("Continue error:", error);
+      // Keep whatever arrived; the reply stays resumable
+      updateSessionMessage(sessionId, target.id, m => ({ ...m, text: fullText, thoughts, isStreaming: false, isStopped: true }));
+      alert("Could not continue the answer: " + (error.message || "Unknown"));
+    } finally {
+      endTurn(sessionId, signal);
+    }
+  };
+
+  // Structured quiz about the current topic, as a hidden user turn
+  const handleQuiz = (request?: string) => {
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      text: getQuizPrompt(request),
+      isHidden: true,
+      modelId: selectedModel,
+      quizRequest: true
+    };
+    runTurn(messages, userMessage, true);
+  };
+
+  const handleQuizComplete = (messageId: string, quiz: Quiz, answers: (number | null)[]) => {
+    if (!currentSessionId) return;
+    updateSession(currentSessionId, s => ({ ...s, quizAttempts: [...(s.quizAttempts || []), createAttempt(messageId, quiz, answers)] }));
+  };
+
+  // Flashcards from the conversation up to `index`, added to the chat's deck. Throws when
+  // the reply cannot be used, so ChatMessage can show why.
+  const handleMakeFlashcards = async (index: number): Promise<number> => {
+    if (!userSettings || !currentSession) return 0;
+    if (!confirmBudget(selectedModel)) return 0;
+    const sessionId = currentSession.id;
+
+    const history = dropOldAttachments(applyContextSummary(messages.slice(0, index + 1), currentSession.contextSummaries));
+    const response = await getProviderForModel(selectedModel, userSettings).sendMessage({
+      modelId: selectedModel,
+      apiKey: userSettings.apiKey,
+      history,
+      message: getFlashcardPrompt(),
+      thinkingBudget: currentSession.thinkingBudget,
+      responseSchema: FLASHCARD_SCHEMA
+    });
+    recordSessionUsage(sessionId, selectedModel, response.usage);
+    if (response.blockReason) throw new Error(`Blocked: ${response.blockReason}`);
+
+    // Against the latest cards: others may have been made or reviewed meanwhile
+    const result = addCards(flashcardsRef.current, parseFlashcards(response.text, currentSession.title, sessionId));
+    updateFlashcards(() => result.cards);
+    return result.added;
+  };
+
+  const updateFlashcards = (update: (cards: Flashcard[]) => Flashcard[]) => {
+    flashcardsRef.current = update(flashcardsRef.current);
+    setFlashcards(flashcardsRef.current);
+  };
+
+  const handleUpdateFlashcard = (card: Flashcard) => {
+    updateFlashcards(cards => cards.map(c => c.id === card.id ? card : c));
+  };
+
+  const handleDeleteFlashcard = (id: string) => {
+    updateFlashcards(cards => cards.filter(c => c.id !== id));
+  };
+
+  // Logs an answer given in a reply. Widgets report the topic; otherwise it is the topic a
+  // practice chat drills, or the chat's title.
+  const handleAnswer = (messageId: string, answer: AnswerReport) => {
+    if (!currentSession) return;
+    const event: AnswerEvent = {
+      id: Date.now().toString(36) + Math.random().toString(36).slice(2, 6),
+      sessionId: currentSession.id,
+      messageId,
+      source: answer.source,
+      topic: answer.topic || currentSession.practiceTopic || currentSession.title,
+      option: answer.option,
+      correct: answer.correct,
+      answeredAt: Date.now()
+    };
+    setProgressLog(recordAnswer(event));
+    if (answer.correct === undefined) pendingAnswersRef.current.set(currentSession.id, event.id);
+  };
+
+  const handlePracticeTopic = (stats: TopicStats) => {
+    createNewSession();
+    setPendingPractice({ topic: stats.topic, prompt: getPracticePrompt(stats) });
+  };
+
+  const handleClearProgress = () => {
+    clearProgressLog();
+    setProgressLog([]);
+  };
+
+  const canContinue = (msg: Message) => msg.role === 'model' && !msg.error && !msg.isStreaming && (msg.isStopped || msg.finishReason === 'MAX_TOKENS');
+
+  const handleSavePrompt = (text: string) => {
+    if (!text.trim()) return;
+    setPrompts(prev => [createPrompt(text), ...prev]);
+  };
+
+  // Only offered while the chat is empty, so a chat keeps one persona from its first message
+  const handleSelectPersona = (persona: Persona | null) => {
+    if (!currentSessionId) return;
+    updateSession(currentSessionId, s => ({
+      ...s,
+      persona: persona ? toSessionPersona(persona) : undefined,
+      // A persona without its own temperature keeps the one set in the parameters panel
+      ...(persona?.temperature !== undefined ? { temperature: persona.temperature } : {})
+    }));
+    if (persona?.defaultModel && availableModels.some(m => m.id === persona.defaultModel)) {
+      setSelectedModel(persona.defaultModel);
+    }
+  };
+
+  const handleUsePrompt = (prompt: SavedPrompt) => {
+    setPromptToInsert(prompt);
+    setIsSideMenuOpen(false);
+  };
+
+  const handleJumpToMessage = (sessionId: string, messageId: string) => {
+    // The match may sit on a branch that is not currently selected
+    updateSession(sessionId, s => selectBranch(s, messageId));
+    setCurrentSessionId(sessionId);
+    setHighlightedMessageId(messageId);
+    setIsSideMenuOpen(false);
+  };
+
+  const handleExportConversation = async (format: 'markdown' | 'html' | 'print') => {
+    setIsExportMenuOpen(false);
+    if (!currentSession) return;
+
+    try {
+      if (format === 'markdown') {
+        downloadFile(conversationToMarkdown(currentSession), getExportFileName(currentSession, 'md'), 'text/markdown');
+      } else if (format === 'html') {
+        downloadFile(await conversationToHtml(currentSession), getExportFileName(currentSession, 'html'), 'text/html');
       } else {
-         setSessions(prev => prev.map(s => {
-           if (s.id === currentSessionId) {
-             return {
-               ...s,
-               messages: s.messages.map(m => m.id === botMessageId ? { ...m, text: m.text + "\n(Connection Error: " + (error.message || "Unknown") + ")", error: true, isStreaming: false } : m)
-             };
-           }
-           return s;
-         }));
+        await openPrintView(currentSession);
       }
-    } finally {
-      setIsLoading(false);
+    } catch (error) {
+      console.error("Export failed", error);
+      alert("Could not export the conversation: " + (error instanceof Error ? error.message : "Unknown"));
     }
   };
 
@@ -293,11 +840,21 @@ const App: React.FC = () => {
       case 'gemini-2.0-pro-exp-02-05': return <BrainCircuit size={16} className="text-blue-400" />;
       case 'gemini-2.5-flash': return <Zap size={16} className="text-yellow-400" />;
       case 'gemini-flash-lite-latest': return <Rabbit size={16} className="text-orange-400" />;
-      default: return <BrainCircuit size={16} />;
+      case 'mock-tutor': return <FlaskConical size={16} className="text-purple-400" />;
+      default: return id.startsWith('openai:') ? <Server size={16} className="text-cyan-400" /> : <BrainCircuit size={16} />;
     }
   };
 
-  const currentModelInfo = AVAILABLE_MODELS.find(m => m.id === selectedModel);
+  const currentModelInfo = availableModels.find(m => m.id === selectedModel);
+
+  const getModelName = (id: ModelId) => availableModels.find(m => m.id === id)?.name || id;
+
+  // How full the selected model's context is with the current branch (as it would be sent)
+  const contextWindow = getContextWindow(currentModelInfo);
+  const contextTokens = estimateContextTokens(applyContextSummary(messages, currentSession?.contextSummaries), selectedModel, currentSession?.persona?.instructions);
+  const contextRatio = Math.min(1, contextTokens / contextWindow);
+
+  const dueCardCount = getDueCards(flashcards).length;
 
   // If no user settings (Not logged in), show Welcome Screen
   if (!userSettings) {
@@ -319,8 +876,36 @@ const App: React.FC = () => {
         onDeleteSession={deleteSession}
         onNewSession={createNewSession}
         onLogout={handleLogout}
+        onImportSessions={handleImportSessions}
+        prompts={prompts}
+        onPromptsChange={setPrompts}
+        onUsePrompt={handleUsePrompt}
+        onJumpToMessage={handleJumpToMessage}
+        providerId={providerId}
+        onProviderChange={handleProviderChange}
+        endpoints={userSettings.endpoints || []}
+        onEndpointsChange={handleEndpointsChange}
+        models={availableModels}
+        fallbackChain={userSettings.fallbackChain ?? DEFAULT_FALLBACK_CHAIN}
+        onFallbackChainChange={handleFallbackChainChange}
+        usageLog={usageLog}
+        dailyBudgetUsd={userSettings.dailyBudgetUsd}
+        onBudgetChange={handleBudgetChange}
+        onClearUsage={handleClearUsage}
+        progressLog={progressLog}
+        onPracticeTopic={handlePracticeTopic}
+        onClearProgress={handleClearProgress}
       />
 
+      {isFlashcardsOpen && (
+        <FlashcardReview
+          cards={flashcards}
+          onUpdateCard={handleUpdateFlashcard}
+          onDeleteCard={handleDeleteFlashcard}
+          onClose={() => setIsFlashcardsOpen(false)}
+        />
+      )}
+
       {/* Header */}
       <header className="fixed top-0 left-0 right-0 bg-[#0d1117]/80 backdrop-blur-xl border-b border-gray-800 z-50 h-16 flex items-center justify-between px-2 md:px-6 shrink-0 transition-all shadow-sm">
         <div className="flex items-center gap-2 flex-1 min-w-0">
@@ -345,6 +930,17 @@ const App: React.FC = () => {
              />
              <Edit3 size={14} className="text-gray-600 opacity-0 group-hover:opacity-100 transition-opacity" />
           </div>
+
+          {/* Persona of this chat */}
+          {currentSession?.persona && (
+            <span
+              className="hidden md:flex items-center gap-1 px-2 py-1 rounded-lg bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 text-[11px] font-marhey max-w-[180px]"
+              title={currentSession.persona.instructions}
+            >
+              <GraduationCap size={12} className="shrink-0" />
+              <span className="truncate">{currentSession.persona.name}</span>
+            </span>
+          )}
         </div>
         
         {/* Controls */}
@@ -372,10 +968,13 @@ const App: React.FC = () => {
               {isModelMenuOpen && (
                 <>
                   <div className="fixed inset-0 z-40" onClick={() => setIsModelMenuOpen(false)}></div>
-                  <div className="absolute top-full right-0 mt-2 w-64 bg-[#161b22] border border-gray-700 rounded-xl shadow-2xl z-50 p-1 flex flex-col gap-1 overflow-hidden animate-in fade-in zoom-in-95 duration-200">
-                     {AVAILABLE_MODELS.map(model => (
+                  <div className="absolute top-full right-0 mt-2 w-64 bg-[#161b22] border border-gray-700 rounded-xl shadow-2xl z-50 p-1 flex flex-col gap-1 max-h-[70vh] overflow-y-auto scrollbar-thin animate-in fade-in zoom-in-95 duration-200">
+                     {availableModels.map((model, i) => (
+                        <React.Fragment key={model.id}>
+                        {model.providerName && model.providerName !== availableModels[i - 1]?.providerName && (
+                          <div className="px-3 pt-2 pb-1 text-[10px] font-bold uppercase tracking-wider text-gray-500">{model.providerName}</div>
+                        )}
                         <button
-                          key={model.id}
                           onClick={() => { setSelectedModel(model.id); setIsModelMenuOpen(false); }}
                           className={`flex items-start gap-3 p-3 rounded-lg text-left transition-colors ${selectedModel === model.id ? 'bg-emerald-500/10 border border-emerald-500/20' : 'hover:bg-gray-800'}`}
                         >
@@ -387,10 +986,116 @@ const App: React.FC = () => {
                               <div className="text-[10px] text-gray-500 leading-tight mt-0.5">
                                 {model.description}
                               </div>
+                              {model.capabilities && (
+                                <div className="flex items-center gap-2 mt-1 text-[10px] text-gray-500">
+                                  {model.capabilities.vision && <span title="Images & PDF"><Eye size={11} /></span>}
+                                  {model.capabilities.audio && <span title="Audio"><Mic size={11} /></span>}
+                                  {model.capabilities.thinking && <span title="Thinking"><Lightbulb size={11} /></span>}
+                                  {model.capabilities.search && <span title="Google Search"><Globe size={11} /></span>}
+                                  {formatContextWindow(model.capabilities.contextWindow) && (
+                                    <span className="font-mono">{formatContextWindow(model.capabilities.contextWindow)} ctx</span>
+                                  )}
+                                </div>
+                              )}
                            </div>
                            {selectedModel === model.id && <div className="ml-auto text-emerald-500 text-xs">●</div>}
                         </button>
+                        </React.Fragment>
                      ))}
+                     {currentModelInfo?.capabilities?.thinking && currentSessionId && (
+                       <div className="px-3 py-2 border-t border-gray-800">
+                         <div className="flex items-center gap-1.5 mb-1.5 text-[10px] font-bold uppercase tracking-wider text-gray-500">
+                           <Lightbulb size={11} />
+                           <span>Thinking (this chat)</span>
+                         </div>
+                         <div className="flex gap-1">
+                           {THINKING_BUDGETS.map(option => (
+                             <button
+                               key={option.label}
+                               onClick={() => updateSession(currentSessionId, s => ({ ...s, thinkingBudget: option.budget }))}
+                               title={option.budget ? `${option.budget.toLocaleString()} tokens` : undefined}
+                               className={`flex-1 py-1 rounded-md text-[10px] transition-colors ${currentSession?.thinkingBudget === option.budget ? 'bg-emerald-500/15 text-emerald-400 border border-emerald-500/30' : 'text-gray-500 hover:text-gray-300 hover:bg-gray-800 border border-transparent'}`}
+                             >
+                               {option.label}
+                             </button>
+                           ))}
+                         </div>
+                       </div>
+                     )}
+                     <button
+                       onClick={handleRefreshModels}
+                       disabled={isRefreshingModels}
+                       className="flex items-center justify-center gap-2 p-2 rounded-lg text-[11px] text-gray-500 hover:text-gray-300 hover:bg-gray-800 transition-colors disabled:opacity-50"
+                     >
+                       <RefreshCw size={12} className={isRefreshingModels ? 'animate-spin' : ''} />
+                       <span>Refresh model list</span>
+                     </button>
+                  </div>
+                </>
+              )}
+           </div>
+
+           {/* Generation Parameters */}
+           {currentSessionId && (
+             <GenerationPanel
+               settings={getGenerationSettings(currentSession)}
+               onChange={(settings) => updateSession(currentSessionId, s => ({ ...s, ...getGenerationSettings(settings) }))}
+             />
+           )}
+
+           {/* Context Window Indicator */}
+           {messages.length > 0 && (
+             <div
+               className={`hidden sm:flex items-center gap-1.5 px-2 py-1 rounded-lg border text-[11px] font-mono ${contextRatio >= CONTEXT_WARN_RATIO ? 'text-amber-400 border-amber-500/30 bg-amber-500/10' : 'text-gray-500 border-gray-800 bg-gray-800/30'}`}
+               title={`Context: ~${contextTokens.toLocaleString()} of ${contextWindow.toLocaleString()} tokens${contextRatio >= CONTEXT_WARN_RATIO ? ' — older turns will be summarized on the next message' : ''}`}
+             >
+               <Gauge size={14} />
+               <div className="w-10 h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                 <div className={`h-full rounded-full ${contextRatio >= CONTEXT_WARN_RATIO ? 'bg-amber-400' : 'bg-emerald-500/70'}`} style={{ width: `${Math.max(2, contextRatio * 100)}%` }} />
+               </div>
+               <span>{Math.round(contextRatio * 100)}%</span>
+             </div>
+           )}
+
+           {/* Flashcards */}
+           <button
+             onClick={() => setIsFlashcardsOpen(true)}
+             className="relative p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors"
+             title="Flashcards"
+           >
+             <Layers size={20} />
+             {dueCardCount > 0 && (
+               <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-amber-500 text-[10px] font-bold text-black flex items-center justify-center">{dueCardCount}</span>
+             )}
+           </button>
+
+           {/* Export Conversation */}
+           <div className="relative">
+              <button 
+                onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+                disabled={messages.length === 0}
+                className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                title="Export conversation"
+              >
+                <FileDown size={20} />
+              </button>
+
+              {isExportMenuOpen && (
+                <>
+                  <div className="fixed inset-0 z-40" onClick={() => setIsExportMenuOpen(false)}></div>
+                  <div className="absolute top-full right-0 mt-2 w-56 bg-[#161b22] border border-gray-700 rounded-xl shadow-2xl z-50 p-1 flex flex-col gap-1 overflow-hidden animate-in fade-in zoom-in-95 duration-200 font-cairo text-sm">
+                     <button onClick={() => handleExportConversation('markdown')} className="flex items-center gap-3 p-3 rounded-lg text-left text-gray-200 hover:bg-gray-800 transition-colors">
+                        <FileText size={16} className="text-emerald-400" />
+                        <span>Markdown (.md)</span>
+                     </button>
+                     <button onClick={() => handleExportConversation('html')} className="flex items-center gap-3 p-3 rounded-lg text-left text-gray-200 hover:bg-gray-800 transition-colors">
+                        <FileCode size={16} className="text-blue-400" />
+                        <span>HTML Page (.html)</span>
+                     </button>
+                     <button onClick={() => handleExportConversation('print')} className="flex items-center gap-3 p-3 rounded-lg text-left text-gray-200 hover:bg-gray-800 transition-colors">
+                        <Printer size={16} className="text-amber-400" />
+                        <span>طباعة / PDF (Print)</span>
+                     </button>
                   </div>
                 </>
               )}
@@ -438,6 +1143,14 @@ const App: React.FC = () => {
                   </p>
                 </div>
               </div>
+
+              <PersonaPicker
+                personas={personas}
+                models={availableModels}
+                selectedId={currentSession?.persona?.id}
+                onSelect={handleSelectPersona}
+                onPersonasChange={setPersonas}
+              />
             </div>
           )}
 
@@ -448,8 +1161,19 @@ const App: React.FC = () => {
               onAction={handleSend}
               isLast={index === messages.length - 1}
               zoomLevel={zoomLevel}
-              onDelete={() => handleDeleteMessage(index)}
+              onDelete={() => handleDeleteMessage(msg.id)}
               onResend={msg.role === 'user' || msg.error ? () => handleResend(index) : undefined}
+              onSavePrompt={msg.role === 'user' ? handleSavePrompt : undefined}
+              isHighlighted={msg.id === highlightedMessageId}
+              onEdit={msg.role === 'user' && !isLoading ? (text) => handleEdit(index, text) : undefined}
+              branch={branchInfo.get(msg.id)}
+              onSwitchBranch={isLoading ? undefined : (direction) => handleSwitchBranch(msg.id, direction)}
+              onContinue={index === messages.length - 1 && !isLoading && canContinue(msg) ? () => handleContinue(index) : undefined}
+              onQuiz={handleQuiz}
+              quizAttempts={msg.quiz ? currentSession?.quizAttempts?.filter(a => a.messageId === msg.id) : undefined}
+              onQuizComplete={msg.quiz ? (answers) => handleQuizComplete(msg.id, msg.quiz!, answers) : undefined}
+              onAnswer={msg.role === 'model' ? (answer) => handleAnswer(msg.id, answer) : undefined}
+              onMakeFlashcards={msg.role === 'model' && !msg.isStreaming && !msg.error ? () => handleMakeFlashcards(index) : undefined}
             />
           ))}
         </div>
@@ -457,10 +1181,14 @@ const App: React.FC = () => {
 
       {/* Input Area */}
       <ChatInput 
-        onSend={(text, files) => handleSend(text, files)} 
+        onSend={(text, files, useSearch) => handleSend(text, files, messages, useSearch)}
         onStop={handleStop}
         disabled={isLoading} 
         isStreaming={isLoading}
+        prompts={prompts}
+        promptToInsert={promptToInsert}
+        onPromptInserted={() => setPromptToInsert(null)}
+        canSearch={!!currentModelInfo?.capabilities?.search}
       />
     </div>
   );
@@ -1,23 +1,77 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Loader2, Paperclip, X, FileAudio, FileText, Image as ImageIcon, Square, UploadCloud } from 'lucide-react';
-import { Attachment } from '../types';
+import { Send, Loader2, Paperclip, X, FileAudio, FileText, Image as ImageIcon, Square, UploadCloud, Bookmark, Globe } from 'lucide-react';
+import { Attachment, SavedPrompt } from '../types';
+import { extractPlaceholders, fillPlaceholders, searchPrompts } from '../services/prompts';
 
 interface ChatInputProps {
-  onSend: (message: string, attachments: Attachment[]) => void;
+  onSend: (message: string, attachments: Attachment[], useSearch: boolean) => void;
   onStop: () => void;
   disabled: boolean;
   isStreaming: boolean;
+  prompts?: SavedPrompt[];
+  promptToInsert?: SavedPrompt | null; // Set from outside (e.g. the prompt library) to insert a prompt
+  onPromptInserted?: () => void;
+  canSearch?: boolean; // The selected model can ground answers with Google Search
 }
 
-export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, disabled, isStreaming }) => {
+export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, disabled, isStreaming, prompts = [], promptToInsert, onPromptInserted, canSearch }) => {
   const [input, setInput] = useState('');
   const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [useSearch, setUseSearch] = useState(false); // For the next message only
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+
+  // Prompt library: "/" opens the picker, prompts with {{placeholders}} ask for values first
+  const [pickerIndex, setPickerIndex] = useState(0);
+  const [isPickerDismissed, setIsPickerDismissed] = useState(false);
+  const [pendingPrompt, setPendingPrompt] = useState<{ prompt: SavedPrompt; values: Record<string, string> } | null>(null);
   
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const slashQuery = input.startsWith('/') && !input.includes('\n') ? input.slice(1) : null;
+  const pickerMatches = slashQuery !== null && !isPickerDismissed ? searchPrompts(prompts, slashQuery).slice(0, 6) : [];
+  const isPickerOpen = pickerMatches.length > 0;
+
+  const resizeTextarea = () => {
+    const el = textareaRef.current;
+    if (!el) return;
+    el.style.height = 'auto';
+    el.style.height = `${Math.min(el.scrollHeight, 200)}px`;
+  };
+
+  const insertText = (text: string) => {
+    setInput(text);
+    requestAnimationFrame(() => {
+      resizeTextarea();
+      textareaRef.current?.focus();
+    });
+  };
+
+  const applyPrompt = (prompt: SavedPrompt) => {
+    const placeholders = extractPlaceholders(prompt.content);
+    if (placeholders.length === 0) {
+      insertText(prompt.content);
+    } else {
+      setInput('');
+      setPendingPrompt({ prompt, values: Object.fromEntries(placeholders.map(name => [name, ''])) });
+    }
+  };
+
+  const confirmPendingPrompt = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingPrompt) return;
+    insertText(fillPlaceholders(pendingPrompt.prompt.content, pendingPrompt.values));
+    setPendingPrompt(null);
+  };
+
+  useEffect(() => {
+    if (promptToInsert) {
+      applyPrompt(promptToInsert);
+      onPromptInserted?.();
+    }
+  }, [promptToInsert]);
+
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       setIsUploading(true);
@@ -48,7 +102,8 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, disabled,
                 file,
                 previewUrl: URL.createObjectURL(file),
                 type,
-                base64
+                base64,
+                mimeType: file.type
               });
             }
             // Progress animation step 2
@@ -76,9 +131,10 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, disabled,
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if ((input.trim() || attachments.length > 0) && !disabled && !isStreaming) {
-      onSend(input, attachments);
+      onSend(input, attachments, useSearch && !!canSearch);
       setInput('');
       setAttachments([]);
+      setUseSearch(false);
       if (textareaRef.current) {
         textareaRef.current.style.height = 'auto';
       }
@@ -86,6 +142,24 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, disabled,
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (isPickerOpen) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setPickerIndex(prev => (prev + step + pickerMatches.length) % pickerMatches.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        applyPrompt(pickerMatches[Math.min(pickerIndex, pickerMatches.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setIsPickerDismissed(true);
+        return;
+      }
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e);
@@ -94,6 +168,8 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, disabled,
 
   const handleInput = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setInput(e.target.value);
+    setPickerIndex(0);
+    if (!e.target.value.startsWith('/')) setIsPickerDismissed(false);
     e.target.style.height = 'auto';
     e.target.style.height = `${Math.min(e.target.scrollHeight, 200)}px`;
   };
@@ -126,6 +202,54 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, disabled,
           </div>
         )}
 
+        {/* Placeholder Values */}
+        {pendingPrompt && (
+          <form onSubmit={confirmPendingPrompt} className="mb-3 p-4 bg-gray-800/80 rounded-2xl border border-indigo-500/30 shadow-2xl space-y-3 animate-in fade-in zoom-in-95 duration-200">
+            <div className="flex items-center justify-between text-xs font-bold">
+              <span className="flex items-center gap-2 text-indigo-300">
+                <Bookmark size={14} />
+                {pendingPrompt.prompt.title}
+              </span>
+              <button type="button" onClick={() => setPendingPrompt(null)} className="p-1 text-gray-500 hover:text-white rounded-lg">
+                <X size={14} />
+              </button>
+            </div>
+            {Object.keys(pendingPrompt.values).map((name, i) => (
+              <label key={name} className="flex flex-col gap-1 text-[11px] text-gray-400 font-mono">
+                {name}
+                <input
+                  autoFocus={i === 0}
+                  value={pendingPrompt.values[name]}
+                  onChange={(e) => setPendingPrompt({ ...pendingPrompt, values: { ...pendingPrompt.values, [name]: e.target.value } })}
+                  dir="auto"
+                  className="bg-black/40 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white font-marhey focus:outline-none focus:border-indigo-500/50"
+                />
+              </label>
+            ))}
+            <button type="submit" className="w-full py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold transition-colors">
+              إدراج (Insert)
+            </button>
+          </form>
+        )}
+
+        {/* Slash Prompt Picker */}
+        {isPickerOpen && (
+          <div className="mb-2 p-1 bg-[#161b22] border border-gray-700 rounded-xl shadow-2xl flex flex-col gap-0.5 animate-in fade-in duration-150">
+            {pickerMatches.map((prompt, i) => (
+              <button
+                key={prompt.id}
+                type="button"
+                onMouseDown={(e) => { e.preventDefault(); applyPrompt(prompt); }}
+                onMouseEnter={() => setPickerIndex(i)}
+                className={`flex flex-col items-start text-left px-3 py-2 rounded-lg transition-colors ${i === pickerIndex ? 'bg-emerald-500/10' : 'hover:bg-gray-800'}`}
+              >
+                <span className={`text-sm font-bold ${i === pickerIndex ? 'text-emerald-400' : 'text-gray-200'}`} dir="auto">{prompt.title}</span>
+                <span className="text-[11px] text-gray-500 line-clamp-1" dir="auto">{prompt.content}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Viral Upload Progress */}
         {isUploading && (
            <div className="w-full mb-4 relative p-4 bg-gray-800/80 rounded-2xl border border-gray-700 shadow-2xl animate-in fade-in zoom-in-95 duration-300">
@@ -155,6 +279,16 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, disabled,
           >
             <Paperclip size={20} />
           </button>
+          {canSearch && (
+            <button
+              type="button"
+              onClick={() => setUseSearch(!useSearch)}
+              className={`p-3 rounded-xl transition-colors ${useSearch ? 'text-sky-400 bg-sky-500/15' : 'text-gray-400 hover:text-sky-400 hover:bg-gray-700/50'}`}
+              title={useSearch ? 'Google Search is on for this message' : 'Search the web for this message (cites sources)'}
+            >
+              <Globe size={20} />
+            </button>
+          )}
           <input 
             type="file" 
             ref={fileInputRef} 
@@ -170,7 +304,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSend, onStop, disabled,
             onChange={handleInput}
             onKeyDown={handleKeyDown}
             dir="auto"
-            placeholder={attachments.length > 0 ? "Add a caption to your files..." : "أكتب هنا... / Ask anything..."}
+            placeholder={attachments.length > 0 ? "Add a caption to your files..." : prompts.length > 0 ? "أكتب هنا... / Ask anything... (/ for saved prompts)" : "أكتب هنا... / Ask anything..."}
             className="flex-1 max-h-[200px] min-h-[44px] py-2.5 px-2 bg-transparent text-gray-100 placeholder-gray-500 focus:outline-none resize-none overflow-y-auto scrollbar-thin font-marhey"
             disabled={disabled && !isStreaming}
             rows={1}
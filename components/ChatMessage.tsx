@@ -1,10 +1,17 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
-import { Message, Attachment } from '../types';
-import { User, BookOpen, AlertCircle, Play, X, Loader2, ArrowRight, ArrowLeft, Quote, HelpCircle, Download, FileText, FileAudio, RotateCcw, Maximize, BrainCircuit, Trash2, RefreshCw, Save, Check, Copy, AlertTriangle, Zap, Rabbit, FlaskConical, ClipboardList } from 'lucide-react';
+import { Message, Attachment, QuizAttempt, AnswerReport } from '../types';
+import { hasOpenHtmlBlock } from '../services/gemini';
+import { getTextDirection, splitHtmlBlocks } from '../utils/messageContent';
+import { formatTokens, getTotalTokens } from '../services/usage';
+import { addCitationMarkers, isCitationMarker } from '../services/grounding';
+import { WIDGET_SANDBOX, buildWidgetDocument, scanWidget } from '../services/htmlSandbox';
+import { ACTION_COOLDOWN_MS, ANSWER_COOLDOWN_MS, MAX_ANSWERS_PER_WIDGET, WidgetReply, createAck, createReady, getMessageId, getWidgetAction, isWidgetOrigin, parseWidgetMessage } from '../services/widgetBridge';
+import { QuizView } from './QuizView';
+import { User, BookOpen, AlertCircle, Play, X, Loader2, ArrowRight, ArrowLeft, Quote, HelpCircle, Download, FileText, FileAudio, RotateCcw, Maximize, BrainCircuit, Trash2, RefreshCw, Save, Check, Copy, AlertTriangle, Zap, Rabbit, FlaskConical, ClipboardList, Square, FastForward, Edit3, ChevronLeft, ChevronRight, ChevronDown, Server, Shuffle, ShieldAlert, Globe, Layers, ShieldCheck, WifiOff, Wifi } from 'lucide-react';
 
 interface ChatMessageProps {
   message: Message;
@@ -13,14 +20,19 @@ interface ChatMessageProps {
   zoomLevel?: number;
   onDelete?: () => void;
   onResend?: () => void;
+  onContinue?: () => void;
   onSavePrompt?: (text: string) => void;
+  isHighlighted?: boolean; // Target of a search jump
+  onEdit?: (text: string) => void;
+  branch?: { index: number; count: number }; // Position among sibling turns, when there are several
+  onSwitchBranch?: (direction: -1 | 1) => void;
+  onQuiz?: (request?: string) => void; // Asks for a structured quiz about this answer, optionally with a wish like "harder"
+  quizAttempts?: QuizAttempt[]; // Saved attempts at this message's quiz
+  onQuizComplete?: (answers: (number | null)[]) => void;
+  onMakeFlashcards?: () => Promise<number>; // Resolves to the number of new cards
+  onAnswer?: (answer: AnswerReport) => void; // An answer given in this reply (widget or A-D option)
 }
 
-const getTextDirection = (text: string) => {
-  const arabicRegex = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
-  return arabicRegex.test(text) ? 'rtl' : 'ltr';
-};
-
 // Hook for Long Press
 const useLongPress = (callback: () => void, ms = 500) => {
   const [startLongPress, setStartLongPress] = useState(false);
@@ -47,10 +59,75 @@ const useLongPress = (callback: () => void, ms = 500) => {
   };
 };
 
-const HtmlPreviewBlock = ({ code, isStreaming, onAction }: { code: string; isStreaming?: boolean; onAction?: (text: string, isHidden?: boolean) => void }) => {
+const HtmlPreviewBlock = ({ code, isStreaming, isIncomplete, onAction, onContinue, onQuiz, onAnswer }: { code: string; isStreaming?: boolean; isIncomplete?: boolean; onAction?: (text: string, isHidden?: boolean) => void; onContinue?: () => void; onQuiz?: (request?: string) => void; onAnswer?: (answer: AnswerReport) => void }) => {
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const lastActionAtRef = useRef(0);
+  const lastAnswerAtRef = useRef(0);
+  const answerCountRef = useRef(0);
+  // Per widget and off by default: lets the widget load from the CDNs in htmlSandbox
+  const [allowNetwork, setAllowNetwork] = useState(false);
+  const scan = useMemo(() => isStreaming ? null : scanWidget(code), [code, isStreaming]);
   
   const isQuiz = code.toLowerCase().includes('quiz') || code.toLowerCase().includes('questions') || code.includes('اختبار');
+
+  // Messages from the open widget, see services/widgetBridge for the protocol
+  useEffect(() => {
+    if (!isFullscreen) return;
+    const handleMessage = (event: MessageEvent) => {
+      const frame = iframeRef.current?.contentWindow;
+      if (!frame || event.source !== frame || !isWidgetOrigin(event.origin)) return;
+      const reply = (message: WidgetReply) => frame.postMessage(message, '*');
+
+      let message;
+      try {
+        message = parseWidgetMessage(event.data);
+      } catch (e: unknown) {
+        reply(createAck(getMessageId(event.data), e instanceof Error ? e.message : 'Malformed message'));
+        return;
+      }
+      if (!message) return;
+
+      if (message.type === 'ayat:answer') {
+        if (answerCountRef.current >= MAX_ANSWERS_PER_WIDGET) {
+          reply(createAck(message.id, 'Too many answers from this widget'));
+          return;
+        }
+        if (Date.now() - lastAnswerAtRef.current < ANSWER_COOLDOWN_MS) {
+          reply(createAck(message.id, 'Too many answers, try again in a moment'));
+          return;
+        }
+        lastAnswerAtRef.current = Date.now();
+        answerCountRef.current += 1;
+        onAnswer?.({ source: 'widget', option: message.option, correct: message.correct, topic: message.topic });
+        reply(createAck(message.id));
+        return;
+      }
+
+      if (!onAction) {
+        reply(createAck(message.id, 'The chat is not available'));
+        return;
+      }
+      if (Date.now() - lastActionAtRef.current < ACTION_COOLDOWN_MS) {
+        reply(createAck(message.id, 'Too many requests, try again in a moment'));
+        return;
+      }
+      lastActionAtRef.current = Date.now();
+      // Another quiz is a structured one, like the "New Quiz" button below
+      if (message.type === 'ayat:variant' && isQuiz && onQuiz) {
+        onQuiz(message.request);
+      } else {
+        const action = getWidgetAction(message, isQuiz);
+        onAction(action.text, action.isHidden);
+      }
+      reply(createAck(message.id));
+      // Questions and variants are answered in the chat, so show it
+      if (message.type !== 'ayat:score') setIsFullscreen(false);
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [isFullscreen, isQuiz, onAction, onQuiz, onAnswer]);
+
   const typeLabel = isQuiz ? "Interactive Quiz" : "Interactive Simulation";
   const typeLabelAr = isQuiz ? "اختبار تفاعلي" : "مثال تفاعلي";
   
@@ -99,10 +176,12 @@ const HtmlPreviewBlock = ({ code, isStreaming, onAction }: { code: string; isStr
         {/* Fullscreen Content */}
         <div className="flex-1 w-full h-full relative bg-[#0d1117] pt-14 md:pt-16">
             <iframe
-            srcDoc={code}
+            ref={iframeRef}
+            srcDoc={buildWidgetDocument(code, allowNetwork)}
+            onLoad={() => iframeRef.current?.contentWindow?.postMessage(createReady(), '*')}
             title="Full Screen Preview"
             className="w-full h-full border-0 absolute inset-0 pt-16"
-            sandbox="allow-scripts allow-forms allow-popups allow-modals allow-same-origin"
+            sandbox={WIDGET_SANDBOX}
             style={{ width: '100%', height: '100%', backgroundColor: '#0d1117' }}
             />
         </div>
@@ -121,6 +200,23 @@ const HtmlPreviewBlock = ({ code, isStreaming, onAction }: { code: string; isStr
              {isQuiz ? "جاري تحضير الاختبار..." : "بيتم توليد مثال تفاعلي..."}
            </p>
         </div>
+      ) : isIncomplete ? (
+        // The reply was cut off mid-block: the HTML is unfinished, so don't offer to run it
+        <div className="w-full p-6 rounded-2xl bg-amber-900/10 border border-amber-500/30 flex flex-col items-center justify-center text-center gap-3 select-none">
+           <AlertTriangle className="text-amber-400" size={24} />
+           <p className="text-amber-300/90 text-sm font-medium" dir="rtl">
+             {isQuiz ? "الاختبار لم يكتمل (Quiz was cut off)" : "المثال التفاعلي لم يكتمل (Simulation was cut off)"}
+           </p>
+           {onContinue && (
+             <button
+               onClick={onContinue}
+               className="flex items-center gap-2 px-4 py-2 bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 rounded-full text-xs transition-colors border border-amber-500/30"
+             >
+               <FastForward size={12} />
+               <span>أكمل (Continue)</span>
+             </button>
+           )}
+        </div>
       ) : (
         <>
           <div className="relative group">
@@ -139,11 +235,46 @@ const HtmlPreviewBlock = ({ code, isStreaming, onAction }: { code: string; isStr
                            <h3 className={`text-lg font-bold font-cairo ${isQuiz ? 'text-indigo-300' : 'text-emerald-300'}`}>
                              {typeLabelAr}
                            </h3>
-                           <p className="text-xs text-gray-500">HTML5 • Interactive • MathJax</p>
+                           <p className="text-xs text-gray-500">HTML5 • Interactive • Sandboxed</p>
                         </div>
                     </div>
                   </div>
 
+                  {/* Security Check */}
+                  {scan && (
+                    <div className="flex flex-col gap-2 text-xs">
+                      {scan.findings.length === 0 ? (
+                        <div className="flex items-center gap-1.5 text-emerald-400/80">
+                          <ShieldCheck size={14} />
+                          <span>No network calls or suspicious code found</span>
+                        </div>
+                      ) : (
+                        <div className="p-3 rounded-xl bg-amber-500/5 border border-amber-500/20 space-y-1.5">
+                          <div className="flex items-center gap-1.5 text-amber-300 font-bold">
+                            <ShieldAlert size={14} />
+                            <span>فحص الأمان (Security check): {scan.findings.length} {scan.findings.length === 1 ? 'finding' : 'findings'}</span>
+                          </div>
+                          {scan.findings.map((finding, i) => (
+                            <div key={i} className="flex items-start gap-2 text-gray-400" dir="ltr">
+                              <span className={`shrink-0 px-1.5 rounded text-[10px] ${finding.kind === 'network' ? 'bg-sky-500/10 text-sky-300' : 'bg-red-500/10 text-red-300'}`}>{finding.kind}</span>
+                              <span className="flex-1 min-w-0">
+                                {finding.label} <code className="text-[10px] text-gray-500 break-all">{finding.excerpt}</code>
+                              </span>
+                            </div>
+                          ))}
+                          <p className="text-[10px] text-gray-500">The widget cannot read this app's data, and its requests and external files are blocked (except KaTeX and fonts, if you allow them below). It can still navigate its own frame to another page.</p>
+                        </div>
+                      )}
+                      {scan.cdnUrls.length > 0 && (
+                        <label className="flex items-center gap-2 text-gray-400 cursor-pointer" title={scan.cdnUrls.join('\n')}>
+                          <input type="checkbox" checked={allowNetwork} onChange={(e) => setAllowNetwork(e.target.checked)} className="accent-emerald-500" />
+                          {allowNetwork ? <Wifi size={14} className="text-emerald-400" /> : <WifiOff size={14} />}
+                          <span>السماح بالشبكة (Allow network) for {scan.cdnUrls.length} KaTeX/font {scan.cdnUrls.length === 1 ? 'file' : 'files'}</span>
+                        </label>
+                      )}
+                    </div>
+                  )}
+
                   {/* Action Buttons */}
                   <div className="flex items-center gap-2 w-full mt-2">
                      <button
@@ -173,7 +304,7 @@ const HtmlPreviewBlock = ({ code, isStreaming, onAction }: { code: string; isStr
             <div className="flex items-center justify-center mt-4 animate-[fadeIn_0.5s_ease-out_delay-300ms_forwards] opacity-0">
                {isQuiz ? (
                  <button 
-                   onClick={() => onAction?.('Generate another different quiz about this topic with harder questions (QZ)', true)}
+                   onClick={() => onQuiz ? onQuiz('harder questions than the last quiz') : onAction?.('Generate another different quiz about this topic with harder questions (QZ)', true)}
                    className="flex items-center gap-2 px-4 py-2 bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-400 rounded-full text-xs transition-colors border border-indigo-500/30"
                  >
                    <RefreshCw size={12} />
@@ -181,7 +312,7 @@ const HtmlPreviewBlock = ({ code, isStreaming, onAction }: { code: string; isStr
                  </button>
                ) : (
                  <button 
-                   onClick={() => onAction?.('Create a comprehensive interactive HTML quiz (QZ) about the previous topic with multiple questions.', true)}
+                   onClick={() => onQuiz ? onQuiz() : onAction?.('Create a comprehensive interactive HTML quiz (QZ) about the previous topic with multiple questions.', true)}
                    className="flex items-center gap-2 px-6 py-2.5 bg-gradient-to-r from-purple-500/20 to-indigo-500/20 hover:from-purple-500/30 hover:to-indigo-500/30 text-purple-300 rounded-full text-sm font-bold transition-all border border-purple-500/30 shadow-lg shadow-purple-900/10 active:scale-95"
                  >
                    <HelpCircle size={16} />
@@ -196,18 +327,59 @@ const HtmlPreviewBlock = ({ code, isStreaming, onAction }: { code: string; isStr
   );
 };
 
+// The model's thought summaries. Open while it is still thinking, collapsed once the answer starts.
+const ReasoningSection = ({ thoughts, isThinking }: { thoughts?: string; isThinking: boolean }) => {
+  const [isOpen, setIsOpen] = useState<boolean | null>(null);
+  const open = (isOpen ?? isThinking) && !!thoughts;
+
+  return (
+    <div className="mb-4 rounded-xl border border-gray-700/50 bg-gray-900/30 text-sm">
+      <button
+        onClick={() => thoughts && setIsOpen(!open)}
+        className={`w-full flex items-center gap-2 px-3 py-2 font-marhey text-xs ${isThinking ? 'text-emerald-500/70' : 'text-gray-500 hover:text-gray-300'} transition-colors`}
+      >
+        <BrainCircuit size={14} className={isThinking ? 'animate-pulse' : ''} />
+        <span className={isThinking ? 'animate-pulse' : ''}>{isThinking ? 'يفكر... (Thinking)' : 'التفكير (Reasoning)'}</span>
+        {thoughts && <ChevronDown size={14} className={`ml-auto transition-transform ${open ? 'rotate-180' : ''}`} />}
+      </button>
+      {open && (
+        <div className="px-4 pb-3 text-gray-400 text-xs leading-relaxed prose prose-invert prose-sm max-w-none border-t border-gray-800/50 pt-2" dir="auto">
+          <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]}>
+            {thoughts}
+          </ReactMarkdown>
+        </div>
+      )}
+    </div>
+  );
+};
+
 export const ChatMessage: React.FC<ChatMessageProps> = ({ 
   message, 
   onAction, 
   isLast,
   zoomLevel = 1,
   onDelete,
-  onResend
+  onResend,
+  onContinue,
+  onSavePrompt,
+  isHighlighted,
+  onEdit,
+  branch,
+  onSwitchBranch,
+  onQuiz,
+  quizAttempts = [],
+  onQuizComplete,
+  onMakeFlashcards,
+  onAnswer
 }) => {
   const isUser = message.role === 'user';
   const dir = getTextDirection(message.text);
   const scrollRef = useRef<HTMLDivElement>(null);
   const [copied, setCopied] = useState(false);
+  const [promptSaved, setPromptSaved] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState('');
+  const [flashcardStatus, setFlashcardStatus] = useState<{ state: 'loading' | 'done' | 'error'; text?: string } | null>(null);
 
   // Auto-scroll logic
   useEffect(() => {
@@ -241,10 +413,42 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
   
   const longPressProps = useLongPress(handleCopy, 600);
 
+  const startEditing = () => {
+    setEditText(message.text);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!editText.trim()) return;
+    setIsEditing(false);
+    if (editText !== message.text) onEdit?.(editText);
+  };
+
+  const handleSavePrompt = () => {
+    onSavePrompt?.(message.text);
+    setPromptSaved(true);
+    setTimeout(() => setPromptSaved(false), 2000);
+  };
+
+  const handleMakeFlashcards = async () => {
+    if (!onMakeFlashcards || flashcardStatus?.state === 'loading') return;
+    setFlashcardStatus({ state: 'loading' });
+    try {
+      const added = await onMakeFlashcards();
+      setFlashcardStatus({ state: 'done', text: added > 0 ? `+${added} cards` : 'No new cards' });
+    } catch (error: any) {
+      setFlashcardStatus({ state: 'error', text: error.message || 'Failed' });
+    }
+    setTimeout(() => setFlashcardStatus(null), 4000);
+  };
+
   if (message.isHidden) return null;
 
   // Split content to separate HTML blocks
-  const contentParts = message.text.split(/```html([\s\S]*?)```/);
+  const contentParts = splitHtmlBlocks(message.text);
+  const hasOpenBlock = hasOpenHtmlBlock(message.text);
+
+  const getShortModelName = (id?: string) => id?.replace(/^openai:[^/]*\//, '').replace('gemini-', '').replace('-preview', '').replace('-latest', '');
 
   const getModelBadge = (id?: string) => {
     if (!id) return null;
@@ -252,12 +456,14 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
     if (id === 'gemini-2.0-pro-exp-02-05') return <BrainCircuit size={10} className="text-blue-400" />;
     if (id === 'gemini-2.5-flash') return <Zap size={10} className="text-yellow-400" />;
     if (id === 'gemini-flash-lite-latest') return <Rabbit size={10} className="text-orange-400" />;
+    if (id.startsWith('openai:')) return <Server size={10} className="text-cyan-400" />;
     return <BrainCircuit size={10} className="text-emerald-400" />;
   };
 
   return (
     <div 
       ref={scrollRef}
+      id={`message-${message.id}`}
       className={`flex w-full mb-10 relative group ${isUser ? 'justify-end' : 'justify-start'}`}
       style={{ fontSize: `${zoomLevel}rem` }}
     >
@@ -273,6 +479,16 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
             <RefreshCw size={14} />
           </button>
         )}
+        {onEdit && !isEditing && (
+          <button onClick={startEditing} className="p-1.5 text-gray-500 hover:text-blue-400 bg-gray-900/50 rounded-lg backdrop-blur-sm transition-colors" title="Edit (creates a new branch)">
+            <Edit3 size={14} />
+          </button>
+        )}
+        {onSavePrompt && (
+          <button onClick={handleSavePrompt} className={`p-1.5 bg-gray-900/50 rounded-lg backdrop-blur-sm transition-colors ${promptSaved ? 'text-emerald-400' : 'text-gray-500 hover:text-indigo-400'}`} title="Save as prompt">
+            {promptSaved ? <Check size={14} /> : <Save size={14} />}
+          </button>
+        )}
       </div>
 
       <div 
@@ -285,6 +501,7 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
           }
           ${message.error ? 'border-red-500/50 bg-red-900/10' : ''}
           ${copied ? 'ring-2 ring-emerald-500' : ''}
+          ${isHighlighted ? 'ring-2 ring-amber-400' : ''}
         `}
       >
         {/* Copied Toast */}
@@ -336,13 +553,50 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
             </div>
         )}
 
+        {/* Reasoning (replaces the generic thinking indicator) */}
+        {!isUser && !message.error && (message.thoughts || (message.isStreaming && !message.text)) && (
+          <ReasoningSection thoughts={message.thoughts} isThinking={!!message.isStreaming && !message.text} />
+        )}
+
+        {/* Edit Box (submitting creates a new branch) */}
+        {isEditing && (
+          <div className="flex flex-col gap-2 min-w-[240px] md:min-w-[420px]">
+            <textarea
+              autoFocus
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submitEdit(); }
+                if (e.key === 'Escape') setIsEditing(false);
+              }}
+              dir="auto"
+              rows={Math.min(10, Math.max(2, editText.split('\n').length))}
+              className="w-full bg-black/30 border border-gray-600 rounded-xl p-3 text-white font-marhey focus:outline-none focus:border-emerald-500/50 resize-y scrollbar-thin"
+            />
+            <div className="flex justify-end gap-2 text-xs">
+              <button onClick={() => setIsEditing(false)} className="px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors">
+                إلغاء (Cancel)
+              </button>
+              <button onClick={submitEdit} className="px-3 py-1.5 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-white font-bold transition-colors">
+                إرسال (Send)
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Structured Quiz */}
+        {message.quiz && !message.error && (
+          <QuizView quiz={message.quiz} attempts={quizAttempts} onComplete={onQuizComplete} />
+        )}
+
         {/* Markdown Content */}
-        {!message.error && (
+        {!message.error && !isEditing && !message.quiz && (
         <div className={`prose prose-invert max-w-none leading-relaxed font-marhey ${isUser ? 'prose-p:text-white' : 'prose-p:text-gray-300'} prose-headings:font-cairo prose-headings:text-transparent prose-headings:bg-clip-text prose-headings:bg-gradient-to-r prose-headings:from-emerald-400 prose-headings:to-cyan-400 prose-blockquote:font-amiri prose-blockquote:text-amber-400 prose-blockquote:border-amber-500/50 prose-blockquote:bg-amber-900/10 prose-blockquote:rounded-r-lg prose-strong:text-emerald-400 space-y-4`} dir={dir}>
           {contentParts.map((part, index) => {
             if (index % 2 === 1) {
               // This is HTML code block
-              return <HtmlPreviewBlock key={index} code={part} isStreaming={message.isStreaming && index === contentParts.length - 1} onAction={onAction} />;
+              const isOpenBlock = hasOpenBlock && index === contentParts.length - 2;
+              return <HtmlPreviewBlock key={index} code={part} isStreaming={message.isStreaming && isOpenBlock} isIncomplete={!message.isStreaming && isOpenBlock} onAction={onAction} onContinue={onContinue} onQuiz={onQuiz} onAnswer={onAnswer} />;
             } else {
               // Standard Text
               return (
@@ -351,8 +605,12 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
                   remarkPlugins={[remarkGfm, remarkMath]}
                   rehypePlugins={[rehypeKatex]}
                   components={{
-                    // Custom Link Renderer
-                    a: ({node, ...props}) => <a {...props} className="text-blue-400 hover:text-blue-300 underline underline-offset-4 decoration-blue-500/30 transition-colors" target="_blank" rel="noopener noreferrer" />,
+                    // Custom Link Renderer (search citations become superscript numbers)
+                    a: ({node, ...props}) => isCitationMarker(String(props.children)) ? (
+                      <a href={props.href} target="_blank" rel="noopener noreferrer" className="inline-flex align-super mx-0.5 px-1 rounded bg-sky-500/15 text-sky-400 hover:bg-sky-500/30 text-[0.65em] font-mono no-underline transition-colors" dir="ltr">
+                        {String(props.children).slice(1, -1)}
+                      </a>
+                    ) : <a {...props} className="text-blue-400 hover:text-blue-300 underline underline-offset-4 decoration-blue-500/30 transition-colors" target="_blank" rel="noopener noreferrer" />,
                     
                     // Custom List Renderer (Visual Shapes)
                     ul: ({node, ...props}) => <ul {...props} className="space-y-3 my-4 list-none pl-0" />,
@@ -367,7 +625,10 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
                          return (
                            <li className="group">
                              <button 
-                               onClick={() => onAction?.(text, false)}
+                               onClick={() => {
+                                 onAnswer?.({ source: 'option', option: text.trim() });
+                                 onAction?.(text, false);
+                               }}
                                className="w-full text-start p-4 rounded-xl bg-gray-800/50 hover:bg-indigo-600/20 border border-gray-700/50 hover:border-indigo-500/50 transition-all duration-300 flex items-center gap-4 active:scale-[0.99] animate-[fadeIn_0.3s_ease-out]"
                              >
                                <div className="w-10 h-10 rounded-full bg-gray-700 group-hover:bg-indigo-500 text-gray-300 group-hover:text-white flex items-center justify-center font-bold text-lg transition-colors shrink-0">
@@ -409,7 +670,7 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
                     hr: () => <hr className="my-10 border-t border-gray-700/50" />
                   }}
                 >
-                  {part}
+                  {message.isStreaming ? part : addCitationMarkers(part, message.grounding)}
                 </ReactMarkdown>
               );
             }
@@ -417,11 +678,66 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
         </div>
         )}
 
-        {/* Loading Indicator */}
-        {message.isStreaming && !contentParts.some((_, i) => i % 2 === 1 && i === contentParts.length - 1) && (
-          <div className="flex items-center gap-2 mt-4 text-emerald-500/70 animate-pulse font-marhey text-sm">
-             <BrainCircuit size={16} className="animate-pulse" />
-             <span>يفكر... (Thinking)</span>
+        {/* Search Sources */}
+        {message.grounding && message.grounding.sources.length > 0 && !message.isStreaming && (
+          <div className="mt-6 pt-4 border-t border-gray-700/50 text-xs" dir="ltr">
+            <div className="flex items-center gap-1.5 mb-2 text-gray-500 font-bold uppercase tracking-wider text-[10px]">
+              <Globe size={12} />
+              <span>Sources</span>
+            </div>
+            <ol className="space-y-1">
+              {message.grounding.sources.map((source, i) => (
+                <li key={i} className="flex items-start gap-2">
+                  <span className="shrink-0 px-1 rounded bg-sky-500/15 text-sky-400 font-mono text-[10px]">{i + 1}</span>
+                  <a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-gray-400 hover:text-sky-400 line-clamp-1 transition-colors">{source.title}</a>
+                </li>
+              ))}
+            </ol>
+            {message.grounding.queries && message.grounding.queries.length > 0 && (
+              <p className="mt-2 text-[10px] text-gray-600">Searched: {message.grounding.queries.join(' • ')}</p>
+            )}
+          </div>
+        )}
+
+        {/* Blocked by a safety filter */}
+        {message.blockReason && !message.isStreaming && (
+          <div className="flex items-start gap-3 p-3 mt-4 rounded-xl bg-amber-500/10 border border-amber-500/30 text-amber-200 text-sm">
+            <ShieldAlert className="shrink-0 text-amber-400" size={18} />
+            <div className="flex flex-col gap-1">
+              <span className="font-bold font-marhey">{message.text ? 'توقف الرد (Response cut off)' : 'الرد محجوب (Response blocked)'}</span>
+              <span className="opacity-90 font-mono text-xs" dir="ltr">{message.blockReason}</span>
+              <span className="text-xs text-amber-200/60">If this is educational content, relax the safety filter in the chat parameters and resend.</span>
+            </div>
+          </div>
+        )}
+
+        {message.isStreaming && message.statusNotice && (
+          <div className="flex items-center gap-2 mt-2 text-sky-400/80 font-marhey text-xs">
+             <RefreshCw size={12} className="animate-spin" />
+             <span>{message.statusNotice}</span>
+          </div>
+        )}
+
+        {/* Branch Navigation */}
+        {branch && branch.count > 1 && (
+          <div className={`flex items-center gap-1 mt-3 text-[11px] text-gray-500 font-mono select-none ${isUser ? 'justify-end' : 'justify-start'}`} dir="ltr">
+            <button
+              onClick={() => onSwitchBranch?.(-1)}
+              disabled={branch.index === 0 || message.isStreaming}
+              className="p-1 rounded hover:bg-gray-700/50 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              title="Previous version"
+            >
+              <ChevronLeft size={14} />
+            </button>
+            <span>{branch.index + 1}/{branch.count}</span>
+            <button
+              onClick={() => onSwitchBranch?.(1)}
+              disabled={branch.index === branch.count - 1 || message.isStreaming}
+              className="p-1 rounded hover:bg-gray-700/50 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+              title="Next version"
+            >
+              <ChevronRight size={14} />
+            </button>
           </div>
         )}
 
@@ -440,15 +756,52 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
                  </button>
 
                  <button 
-                  onClick={() => onAction?.('Create a comprehensive interactive HTML quiz (QZ) about this topic', true)}
+                  onClick={() => onQuiz ? onQuiz() : onAction?.('Create a comprehensive interactive HTML quiz (QZ) about this topic', true)}
                   className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-400 text-xs font-bold border border-indigo-500/20 transition-all"
                  >
                    <ClipboardList size={14} />
                    📝 اختبار (Quiz)
                  </button>
+
+                 {onMakeFlashcards && (
+                   <button 
+                    onClick={handleMakeFlashcards}
+                    disabled={flashcardStatus?.state === 'loading'}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${flashcardStatus?.state === 'error' ? 'bg-red-500/10 text-red-400 border-red-500/20' : 'bg-amber-500/10 hover:bg-amber-500/20 text-amber-400 border-amber-500/20'}`}
+                    title={flashcardStatus?.state === 'error' ? flashcardStatus.text : 'Make flashcards from this conversation'}
+                   >
+                     {flashcardStatus?.state === 'loading' ? <Loader2 size={14} className="animate-spin" /> : <Layers size={14} />}
+                     {flashcardStatus?.state === 'done' ? flashcardStatus.text
+                       : flashcardStatus?.state === 'error' ? 'فشل (Failed)'
+                       : '🗂️ بطاقات (Flashcards)'}
+                   </button>
+                 )}
               </div>
 
               <div className="flex items-center gap-3">
+                {/* Stopped / Truncated Badge */}
+                {message.isStopped ? (
+                  <div className="flex items-center gap-1.5 text-[10px] text-amber-400/80 px-2 py-1 rounded bg-amber-500/10 border border-amber-500/20" title="Generation stopped">
+                    <Square size={10} className="fill-current" />
+                    <span>توقف (Stopped)</span>
+                  </div>
+                ) : message.finishReason === 'MAX_TOKENS' && (
+                  <div className="flex items-center gap-1.5 text-[10px] text-amber-400/80 px-2 py-1 rounded bg-amber-500/10 border border-amber-500/20" title="Output limit reached">
+                    <AlertTriangle size={10} />
+                    <span>مقطوع (Truncated)</span>
+                  </div>
+                )}
+
+                {onContinue && (
+                  <button 
+                    onClick={onContinue}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-amber-500/10 hover:bg-amber-500/20 text-amber-300 text-xs font-bold border border-amber-500/20 transition-all"
+                  >
+                    <FastForward size={14} />
+                    أكمل (Continue)
+                  </button>
+                )}
+
                 <button 
                   onClick={() => onAction?.("مش فاهم، ممكن تشرح تاني بشكل أبسط؟ (Simplify)", false)}
                   className="px-3 py-1.5 rounded-lg bg-gray-800 hover:bg-gray-700 text-xs text-gray-400 hover:text-white transition-colors border border-gray-700/50"
@@ -456,10 +809,28 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
                   🤔 مش فاهم (Simplify)
                 </button>
                 
+                {/* Fallback Notice: another model of the chain answered */}
+                {message.fallbackFrom && (
+                  <div className="flex items-center gap-1.5 text-[10px] text-sky-400/80 px-2 py-1 rounded bg-sky-500/10 border border-sky-500/20" title={`${message.fallbackFrom} was unavailable${message.fallbackReason ? ` (${message.fallbackReason})` : ''}; answered by ${message.modelId}`}>
+                    <Shuffle size={10} />
+                    <span>بديل (Fallback from {getShortModelName(message.fallbackFrom)})</span>
+                  </div>
+                )}
+
+                {/* Token Usage */}
+                {message.usage && (
+                  <div
+                    className="text-[10px] text-gray-600 font-mono px-2 py-1 rounded bg-black/20"
+                    title={`Prompt ${message.usage.promptTokens} • Response ${message.usage.responseTokens}${message.usage.thinkingTokens ? ` • Thinking ${message.usage.thinkingTokens}` : ''}`}
+                  >
+                    {formatTokens(getTotalTokens(message.usage))} tok
+                  </div>
+                )}
+
                 {/* Model Badge */}
                 <div className="flex items-center gap-1.5 text-[10px] text-gray-600 font-mono px-2 py-1 rounded bg-black/20">
                     {getModelBadge(message.modelId)}
-                    <span className="opacity-70">{message.modelId?.replace('gemini-', '').replace('-preview', '').replace('-latest', '').replace('2.0-pro-exp-02-05', '2.5-pro') || 'AI'}</span>
+                    <span className="opacity-70">{getShortModelName(message.modelId) || 'AI'}</span>
                 </div>
               </div>
            </div>
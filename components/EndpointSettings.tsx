@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Edit3, Check, X, Server, RefreshCw, Loader2 } from 'lucide-react';
+import { OpenAIEndpoint } from '../types';
+import { listEndpointModels, normalizeBaseUrl } from '../services/openaiProvider';
+
+interface EndpointSettingsProps {
+  endpoints: OpenAIEndpoint[];
+  onChange: (endpoints: OpenAIEndpoint[]) => void;
+}
+
+const parseModelList = (value: string): string[] => value.split(/[\n,]/).map(m => m.trim()).filter(Boolean);
+
+export const EndpointSettings: React.FC<EndpointSettingsProps> = ({ endpoints, onChange }) => {
+  const [draft, setDraft] = useState<OpenAIEndpoint | null>(null);
+  const [draftModels, setDraftModels] = useState('');
+  const [isFetching, setIsFetching] = useState(false);
+
+  const startEditing = (endpoint: OpenAIEndpoint) => {
+    setDraft(endpoint);
+    setDraftModels(endpoint.models.join(', '));
+  };
+
+  const handleCreate = () => {
+    startEditing({
+      id: Date.now().toString(36),
+      name: 'Local server',
+      baseUrl: 'http://localhost:11434/v1',
+      apiKey: '',
+      models: [],
+      supportsImages: false
+    });
+  };
+
+  // Asks the endpoint for its models, which also checks the URL and key
+  const handleFetchModels = async () => {
+    if (!draft) return;
+    setIsFetching(true);
+    try {
+      const models = await listEndpointModels({ ...draft, models: [] });
+      setDraftModels(models.join(', '));
+      if (models.length === 0) alert("The endpoint did not report any models. Enter their names manually.");
+    } catch (e: any) {
+      alert("Could not reach the endpoint: " + (e.message || "Unknown"));
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!/^https?:\/\//.test(draft.baseUrl.trim())) {
+      alert("The base URL must start with http:// or https://");
+      return;
+    }
+    const saved: OpenAIEndpoint = {
+      ...draft,
+      name: draft.name.trim() || 'Endpoint',
+      baseUrl: normalizeBaseUrl(draft.baseUrl),
+      apiKey: draft.apiKey.trim(),
+      models: parseModelList(draftModels)
+    };
+    const exists = endpoints.some(e => e.id === saved.id);
+    onChange(exists ? endpoints.map(e => e.id === saved.id ? saved : e) : [...endpoints, saved]);
+    setDraft(null);
+  };
+
+  const handleDelete = (id: string) => {
+    if (window.confirm('Remove this endpoint? Its models disappear from the model menu.')) {
+      onChange(endpoints.filter(e => e.id !== id));
+    }
+  };
+
+  const inputClass = "w-full bg-black/30 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-emerald-500/50";
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between px-2">
+        <span className="text-xs font-bold text-gray-500 uppercase tracking-wider font-marhey">OpenAI-compatible endpoints</span>
+        <button onClick={handleCreate} disabled={!!draft} className="p-2 rounded-lg bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 border border-emerald-500/20 transition-colors disabled:opacity-30" title="Add endpoint">
+          <Plus size={16} />
+        </button>
+      </div>
+
+      {draft && (
+        <div className="rounded-xl p-3 bg-gray-800 border border-emerald-500/30 space-y-2">
+          <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Name" className={`${inputClass} font-bold text-sm`} />
+          <input value={draft.baseUrl} onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })} placeholder="Base URL (…/v1)" className={`${inputClass} font-mono`} dir="ltr" />
+          <input type="password" value={draft.apiKey} onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })} placeholder="API Key (optional for local servers)" className={`${inputClass} font-mono`} dir="ltr" />
+          <div className="flex gap-2">
+            <textarea
+              value={draftModels}
+              onChange={(e) => setDraftModels(e.target.value)}
+              placeholder="Models, comma separated (empty = ask the server)"
+              rows={2}
+              dir="ltr"
+              className={`${inputClass} font-mono resize-y scrollbar-thin`}
+            />
+            <button onClick={handleFetchModels} disabled={isFetching} className="self-start p-2 text-gray-400 hover:text-emerald-400 hover:bg-gray-700 rounded-lg transition-colors" title="Fetch models from the endpoint">
+              {isFetching ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            <input type="checkbox" checked={!!draft.supportsImages} onChange={(e) => setDraft({ ...draft, supportsImages: e.target.checked })} />
+            <span>Models accept images</span>
+          </label>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors" title="Cancel">
+              <X size={14} />
+            </button>
+            <button onClick={handleSave} className="p-1.5 text-emerald-400 hover:text-white hover:bg-emerald-500/20 rounded-lg transition-colors" title="Save">
+              <Check size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {endpoints.length === 0 && !draft ? (
+        <div className="text-center py-10 text-gray-600 font-marhey text-sm border-2 border-dashed border-gray-800 rounded-xl mx-2">
+          <Server size={32} className="mx-auto mb-3 opacity-20" />
+          <p>No custom endpoints yet.</p>
+          <p className="text-[11px] mt-2 px-4">Add OpenAI, OpenRouter or a local server (Ollama, LM Studio) to use its models next to Gemini.</p>
+        </div>
+      ) : (
+        endpoints.filter(e => e.id !== draft?.id).map(endpoint => (
+          <div key={endpoint.id} className="group relative rounded-xl p-3 hover:bg-gray-800/50 border border-transparent hover:border-gray-700 transition-all">
+            <h3 className="font-bold text-sm text-gray-300 line-clamp-1 font-marhey pr-16">{endpoint.name}</h3>
+            <p className="text-gray-500 text-[11px] font-mono line-clamp-1 mt-1" dir="ltr">{endpoint.baseUrl}</p>
+            <p className="text-gray-600 text-[10px] mt-1">
+              {endpoint.models.length > 0 ? `${endpoint.models.length} models` : 'Models listed by the server'}
+              {endpoint.supportsImages && ' • images'}
+            </p>
+            <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button onClick={() => startEditing(endpoint)} disabled={!!draft} className="p-1.5 text-gray-500 hover:text-white rounded-lg" title="Edit">
+                <Edit3 size={14} />
+              </button>
+              <button onClick={() => handleDelete(endpoint.id)} className="p-1.5 text-gray-500 hover:text-red-400 rounded-lg" title="Delete">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, X, Shuffle } from 'lucide-react';
+import { ModelId, ModelInfo } from '../types';
+
+interface FallbackChainSettingsProps {
+  chain: ModelId[];
+  models: ModelInfo[];
+  onChange: (chain: ModelId[]) => void;
+}
+
+export const FallbackChainSettings: React.FC<FallbackChainSettingsProps> = ({ chain, models, onChange }) => {
+  const getName = (id: ModelId) => models.find(m => m.id === id)?.name || id;
+  const addable = models.filter(m => !chain.includes(m.id));
+
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= chain.length) return;
+    const next = [...chain];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-1.5 px-2 text-xs font-bold text-gray-500 uppercase tracking-wider font-marhey">
+        <Shuffle size={12} />
+        <span>Fallback chain</span>
+      </div>
+      <p className="px-2 text-[11px] text-gray-600">
+        When the selected model is busy or out of quota (429/503), the message is retried, then re-sent to these models in order.
+      </p>
+
+      {chain.length === 0 ? (
+        <p className="px-2 text-[11px] text-gray-500 italic">No fallback: only the selected model is retried.</p>
+      ) : (
+        <ol className="space-y-1">
+          {chain.map((id, index) => (
+            <li key={id} className="group flex items-center gap-2 rounded-lg px-2 py-1.5 bg-gray-900 border border-gray-800 text-xs text-gray-300">
+              <span className="text-gray-600 font-mono w-4">{index + 1}.</span>
+              <span className={`flex-1 line-clamp-1 ${models.some(m => m.id === id) ? '' : 'text-gray-600 line-through'}`} title={models.some(m => m.id === id) ? id : `${id} is not available and will be skipped`}>
+                {getName(id)}
+              </span>
+              <button onClick={() => move(index, -1)} disabled={index === 0} className="p-1 text-gray-500 hover:text-white disabled:opacity-20" title="Move up">
+                <ArrowUp size={12} />
+              </button>
+              <button onClick={() => move(index, 1)} disabled={index === chain.length - 1} className="p-1 text-gray-500 hover:text-white disabled:opacity-20" title="Move down">
+                <ArrowDown size={12} />
+              </button>
+              <button onClick={() => onChange(chain.filter(m => m !== id))} className="p-1 text-gray-500 hover:text-red-400" title="Remove">
+                <X size={12} />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {addable.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onChange([...chain, e.target.value])}
+          className="w-full bg-gray-900 border border-gray-800 rounded-lg px-2 py-1.5 text-xs text-gray-400 focus:outline-none focus:border-emerald-500/50"
+        >
+          <option value="">+ Add a fallback model...</option>
+          {addable.map(m => (
+            <option key={m.id} value={m.id}>{m.providerName ? `${m.name} (${m.providerName})` : m.name}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { X, Layers, ArrowLeft, Trash2, Sigma, BookOpen, PartyPopper, List } from 'lucide-react';
+import { Flashcard } from '../types';
+import { REVIEW_GRADES, formatDue, getDecks, getDueCards, reviewCard } from '../services/flashcards';
+import { MathText } from './QuizView';
+
+interface FlashcardReviewProps {
+  cards: Flashcard[];
+  onUpdateCard: (card: Flashcard) => void;
+  onDeleteCard: (id: string) => void;
+  onClose: () => void;
+}
+
+const GRADE_STYLES: Record<number, string> = {
+  1: 'bg-red-500/10 hover:bg-red-500/20 text-red-400 border-red-500/30',
+  3: 'bg-amber-500/10 hover:bg-amber-500/20 text-amber-400 border-amber-500/30',
+  4: 'bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
+  5: 'bg-sky-500/10 hover:bg-sky-500/20 text-sky-400 border-sky-500/30'
+};
+
+type View = { mode: 'decks' } | { mode: 'browse'; deck: string } | { mode: 'review'; deck?: string };
+
+// Decks overview, a review session of the cards due today, and a per-deck card list
+export const FlashcardReview: React.FC<FlashcardReviewProps> = ({ cards, onUpdateCard, onDeleteCard, onClose }) => {
+  const [view, setView] = useState<View>({ mode: 'decks' });
+  // Ids still to review in this session; cards graded "Again" go back to the end
+  const [queue, setQueue] = useState<string[]>([]);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const decks = getDecks(cards);
+  const dueCount = getDueCards(cards).length;
+
+  const startReview = (deck?: string) => {
+    setQueue(getDueCards(cards, deck).map(c => c.id));
+    setIsFlipped(false);
+    setReviewedCount(0);
+    setView({ mode: 'review', deck });
+  };
+
+  const currentCard = view.mode === 'review' ? cards.find(c => c.id === queue[0]) : undefined;
+
+  const handleGrade = (grade: number) => {
+    if (!currentCard) return;
+    onUpdateCard(reviewCard(currentCard, grade));
+    setQueue(prev => grade < 3 ? [...prev.slice(1), prev[0]] : prev.slice(1));
+    setReviewedCount(prev => prev + 1);
+    setIsFlipped(false);
+  };
+
+  const renderDecks = () => (
+    <div className="space-y-3">
+      {cards.length === 0 ? (
+        <div className="text-center text-gray-500 py-16 space-y-2">
+          <Layers size={32} className="mx-auto opacity-40" />
+          <p className="font-cairo">لا توجد بطاقات بعد (No flashcards yet)</p>
+          <p className="text-xs">Use the 🗂️ Flashcards button under an answer to make cards from a chat.</p>
+        </div>
+      ) : (
+        <>
+          <button
+            onClick={() => startReview()}
+            disabled={dueCount === 0}
+            className="w-full p-4 rounded-xl bg-emerald-600 hover:bg-emerald-500 disabled:bg-gray-800 disabled:text-gray-500 text-white font-bold font-cairo transition-colors"
+          >
+            {dueCount > 0 ? `راجع الآن (Review ${dueCount} due today)` : 'Nothing due today'}
+          </button>
+
+          {decks.map(deck => {
+            const deckCards = cards.filter(c => c.deck === deck);
+            const deckDue = getDueCards(cards, deck).length;
+            return (
+              <div key={deck} className="flex items-center gap-3 p-3 rounded-xl bg-gray-800/30 border border-gray-800">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-gray-200 truncate" dir="auto">{deck}</div>
+                  <div className="text-[11px] text-gray-500">{deckCards.length} cards • <span className={deckDue > 0 ? 'text-emerald-400' : ''}>{deckDue} due</span></div>
+                </div>
+                <button onClick={() => setView({ mode: 'browse', deck })} className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg" title="Show cards">
+                  <List size={16} />
+                </button>
+                <button
+                  onClick={() => startReview(deck)}
+                  disabled={deckDue === 0}
+                  className="px-3 py-1.5 rounded-lg text-xs font-bold bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 border border-emerald-500/20 disabled:opacity-30 disabled:cursor-not-allowed"
+                >
+                  Review
+                </button>
+              </div>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+
+  const renderBrowse = (deck: string) => (
+    <div className="space-y-2">
+      {cards.filter(c => c.deck === deck).map(card => (
+        <div key={card.id} className="flex items-start gap-3 p-3 rounded-xl bg-gray-800/30 border border-gray-800">
+          {card.kind === 'formula' ? <Sigma size={14} className="text-sky-400 mt-1 shrink-0" /> : <BookOpen size={14} className="text-amber-400 mt-1 shrink-0" />}
+          <div className="flex-1 min-w-0 space-y-1 text-sm" dir="auto">
+            <div className="text-gray-100 font-bold"><MathText text={card.front} /></div>
+            <div className="text-gray-400"><MathText text={card.back} /></div>
+            <div className="text-[10px] text-gray-600">Due {formatDue(card)} • every {card.interval || 0} d</div>
+          </div>
+          <button onClick={() => onDeleteCard(card.id)} className="p-1.5 text-gray-600 hover:text-red-400 rounded-lg" title="Delete card">
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderReview = () => {
+    if (!currentCard) {
+      return (
+        <div className="text-center py-16 space-y-4">
+          <PartyPopper size={36} className="mx-auto text-amber-400" />
+          <p className="text-lg font-bold font-cairo text-gray-100">أحسنت! (All done for today)</p>
+          <p className="text-sm text-gray-500">{reviewedCount} reviews</p>
+          <button onClick={() => setView({ mode: 'decks' })} className="px-4 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm">Back to decks</button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between text-[11px] text-gray-500">
+          <span className="truncate" dir="auto">{currentCard.deck}</span>
+          <span className="font-mono shrink-0">{queue.length} left</span>
+        </div>
+
+        <button
+          onClick={() => setIsFlipped(true)}
+          className="w-full min-h-[240px] p-6 rounded-2xl bg-gradient-to-b from-amber-500/5 to-transparent border border-amber-500/20 flex flex-col items-center justify-center gap-5 text-center cursor-pointer"
+        >
+          <div className="text-[10px] uppercase tracking-wider text-gray-500 flex items-center gap-1.5">
+            {currentCard.kind === 'formula' ? <Sigma size={12} /> : <BookOpen size={12} />}
+            {currentCard.kind}
+          </div>
+          <div className="text-xl text-gray-100 font-bold font-marhey" dir="auto"><MathText text={currentCard.front} /></div>
+          {isFlipped ? (
+            <div className="w-full pt-5 border-t border-gray-800 text-gray-300 leading-relaxed" dir="auto"><MathText text={currentCard.back} /></div>
+          ) : (
+            <div className="text-xs text-gray-500">اضغط لإظهار الإجابة (Tap to show the answer)</div>
+          )}
+        </button>
+
+        {isFlipped && (
+          <div className="grid grid-cols-4 gap-2">
+            {REVIEW_GRADES.map(({ grade, label }) => (
+              <button
+                key={grade}
+                onClick={() => handleGrade(grade)}
+                className={`py-2.5 rounded-xl text-xs font-bold border transition-colors ${GRADE_STYLES[grade]}`}
+                title={`Next review ${formatDue(reviewCard(currentCard, grade))}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[80] bg-black/70 backdrop-blur-sm flex items-center justify-center p-3 animate-[fadeIn_0.2s_ease-out_forwards]" onClick={onClose}>
+      <div className="w-full max-w-xl max-h-[90vh] flex flex-col bg-[#0d1117] border border-gray-800 rounded-2xl shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-800">
+          {view.mode !== 'decks' && (
+            <button onClick={() => setView({ mode: 'decks' })} className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg">
+              <ArrowLeft size={16} />
+            </button>
+          )}
+          <Layers size={18} className="text-amber-400" />
+          <h2 className="flex-1 font-bold font-cairo text-gray-100 truncate" dir="auto">
+            {view.mode === 'browse' ? view.deck : 'البطاقات (Flashcards)'}
+          </h2>
+          <button onClick={onClose} className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg">
+            <X size={18} />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4 scrollbar-thin">
+          {view.mode === 'decks' && renderDecks()}
+          {view.mode === 'browse' && renderBrowse(view.deck)}
+          {view.mode === 'review' && renderReview()}
+        </div>
+      </div>
+    </div>
+  );
+};
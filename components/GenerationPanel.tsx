@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, RotateCcw, ShieldCheck } from 'lucide-react';
+import { GenerationSettings, SafetyThreshold } from '../types';
+
+interface GenerationPanelProps {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+}
+
+const PRESETS: { label: string; settings: GenerationSettings }[] = [
+  { label: 'Precise', settings: { temperature: 0.2, topP: 0.8 } },
+  { label: 'Balanced', settings: {} },
+  { label: 'Creative', settings: { temperature: 1.2, topP: 0.95 } }
+];
+
+const SAFETY_LEVELS: { threshold?: SafetyThreshold; label: string }[] = [
+  { label: 'Model default' },
+  { threshold: 'BLOCK_LOW_AND_ABOVE', label: 'Strict (block low and above)' },
+  { threshold: 'BLOCK_MEDIUM_AND_ABOVE', label: 'Standard (block medium and above)' },
+  { threshold: 'BLOCK_ONLY_HIGH', label: 'Relaxed (block only high)' },
+  { threshold: 'BLOCK_NONE', label: 'Off (do not block)' }
+];
+
+const MAX_OUTPUT_TOKENS = 65536;
+
+// Sampling and safety settings of the current chat, in a header popover
+export const GenerationPanel: React.FC<GenerationPanelProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { temperature, topP, maxOutputTokens, safetyThreshold } = settings;
+  const isCustomized = Object.values(settings).some(value => value !== undefined);
+
+  const update = (patch: GenerationSettings) => onChange({ ...settings, ...patch });
+
+  const renderSlider = (label: string, value: number | undefined, min: number, max: number, step: number, fallback: number, key: 'temperature' | 'topP') => (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-[11px]">
+        <span className="text-gray-400">{label}</span>
+        <span className="flex items-center gap-1.5 font-mono text-gray-500">
+          {value !== undefined ? value.toFixed(2) : 'default'}
+          {value !== undefined && (
+            <button onClick={() => update({ [key]: undefined })} className="text-gray-600 hover:text-gray-300" title="Use the model default">
+              <RotateCcw size={10} />
+            </button>
+          )}
+        </span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value ?? fallback}
+        onChange={(e) => update({ [key]: parseFloat(e.target.value) })}
+        className={`w-full accent-emerald-500 ${value === undefined ? 'opacity-40' : ''}`}
+      />
+    </div>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-2 rounded-lg border transition-all ${isCustomized ? 'text-emerald-400 bg-emerald-500/10 border-emerald-500/20' : 'text-gray-400 bg-gray-800/50 border-gray-700 hover:text-white'}`}
+        title="Chat parameters"
+      >
+        <SlidersHorizontal size={16} />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)}></div>
+          <div className="absolute top-full right-0 mt-2 w-72 bg-[#161b22] border border-gray-700 rounded-xl shadow-2xl z-50 p-3 space-y-3 animate-in fade-in zoom-in-95 duration-200">
+            <div className="text-[10px] font-bold uppercase tracking-wider text-gray-500">Parameters (this chat)</div>
+
+            <div className="flex gap-1">
+              {PRESETS.map(preset => (
+                <button
+                  key={preset.label}
+                  onClick={() => update({ temperature: preset.settings.temperature, topP: preset.settings.topP })}
+                  className="flex-1 py-1 rounded-md text-[10px] text-gray-400 hover:text-white bg-gray-800/50 hover:bg-gray-800 border border-gray-700 transition-colors"
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+
+            {renderSlider('Temperature', temperature, 0, 2, 0.05, 1, 'temperature')}
+            {renderSlider('Top-p', topP, 0, 1, 0.05, 0.95, 'topP')}
+
+            <div className="space-y-1">
+              <label className="text-[11px] text-gray-400">Max output tokens</label>
+              <input
+                type="number"
+                min="1"
+                max={MAX_OUTPUT_TOKENS}
+                value={maxOutputTokens ?? ''}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  update({ maxOutputTokens: value > 0 ? Math.min(MAX_OUTPUT_TOKENS, value) : undefined });
+                }}
+                placeholder="Model default"
+                className="w-full bg-black/30 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-gray-200 font-mono placeholder-gray-600 focus:outline-none focus:border-emerald-500/50"
+              />
+              <p className="text-[10px] text-gray-600">On thinking models this also covers the thinking tokens.</p>
+            </div>
+
+            <div className="space-y-1">
+              <label className="flex items-center gap-1.5 text-[11px] text-gray-400">
+                <ShieldCheck size={12} />
+                <span>Safety filter</span>
+              </label>
+              <select
+                value={safetyThreshold || ''}
+                onChange={(e) => update({ safetyThreshold: (e.target.value || undefined) as SafetyThreshold | undefined })}
+                className="w-full bg-black/30 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-emerald-500/50"
+              >
+                {SAFETY_LEVELS.map(level => <option key={level.label} value={level.threshold || ''}>{level.label}</option>)}
+              </select>
+              <p className="text-[10px] text-gray-600">Gemini only. Relax it if biology or medicine lessons get blocked.</p>
+            </div>
+
+            {isCustomized && (
+              <button
+                onClick={() => onChange({})}
+                className="w-full flex items-center justify-center gap-1.5 p-1.5 rounded-lg text-[11px] text-gray-500 hover:text-gray-300 hover:bg-gray-800 transition-colors"
+              >
+                <RotateCcw size={12} />
+                <span>Reset to model defaults</span>
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Edit3, Check, X, Copy, GraduationCap, Sparkles } from 'lucide-react';
+import { ModelInfo, Persona } from '../types';
+import { BUILT_IN_PERSONAS, createPersona } from '../services/personas';
+
+interface PersonaPickerProps {
+  personas: Persona[]; // Custom personas
+  models: ModelInfo[];
+  selectedId?: string;
+  onSelect: (persona: Persona | null) => void;
+  onPersonasChange: (personas: Persona[]) => void;
+}
+
+// Shown on an empty chat: the persona is chosen before the first message
+export const PersonaPicker: React.FC<PersonaPickerProps> = ({ personas, models, selectedId, onSelect, onPersonasChange }) => {
+  const [draft, setDraft] = useState<Persona | null>(null);
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.instructions.trim()) {
+      alert("Write the instructions for this persona first.");
+      return;
+    }
+    const saved: Persona = { ...draft, name: draft.name.trim() || 'Persona', instructions: draft.instructions.trim(), isBuiltIn: undefined };
+    const exists = personas.some(p => p.id === saved.id);
+    onPersonasChange(exists ? personas.map(p => p.id === saved.id ? saved : p) : [...personas, saved]);
+    if (exists && selectedId === saved.id) onSelect(saved);
+    setDraft(null);
+  };
+
+  const handleDelete = (persona: Persona) => {
+    if (!window.confirm(`Delete the persona "${persona.name}"? Chats that use it keep its instructions.`)) return;
+    onPersonasChange(personas.filter(p => p.id !== persona.id));
+    if (selectedId === persona.id) onSelect(null);
+  };
+
+  const getModelName = (id?: string) => models.find(m => m.id === id)?.name || id;
+
+  const inputClass = "w-full bg-black/30 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-emerald-500/50";
+
+  const renderCard = (persona: Persona | null) => {
+    const isSelected = (selectedId || null) === (persona?.id || null);
+    return (
+      <div
+        key={persona?.id || 'default'}
+        className={`group relative rounded-xl p-3 text-start cursor-pointer border transition-all ${isSelected ? 'bg-emerald-500/10 border-emerald-500/40' : 'bg-gray-900/50 border-gray-800 hover:border-gray-600'}`}
+        onClick={() => onSelect(persona)}
+      >
+        <div className="flex items-center gap-2 pr-12">
+          {persona ? <GraduationCap size={14} className="text-emerald-400 shrink-0" /> : <Sparkles size={14} className="text-emerald-400 shrink-0" />}
+          <span className={`font-bold text-xs font-marhey line-clamp-1 ${isSelected ? 'text-emerald-400' : 'text-gray-200'}`}>
+            {persona?.name || 'أيات بينات (General Tutor)'}
+          </span>
+        </div>
+        <p className="text-[10px] text-gray-500 mt-1 line-clamp-2">{persona ? persona.description || persona.instructions : 'The default tutor for every subject.'}</p>
+        {persona && (persona.defaultModel || persona.temperature !== undefined) && (
+          <p className="text-[10px] text-gray-600 font-mono mt-1 line-clamp-1">
+            {[persona.defaultModel && getModelName(persona.defaultModel), persona.temperature !== undefined && `temp ${persona.temperature}`].filter(Boolean).join(' • ')}
+          </p>
+        )}
+        {persona && (
+          <div className="absolute top-2 right-2 flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity" onClick={(e) => e.stopPropagation()}>
+            {persona.isBuiltIn ? (
+              <button onClick={() => setDraft(createPersona(persona))} disabled={!!draft} className="p-1 text-gray-500 hover:text-white rounded-lg" title="Customize a copy">
+                <Copy size={12} />
+              </button>
+            ) : (
+              <>
+                <button onClick={() => setDraft(persona)} disabled={!!draft} className="p-1 text-gray-500 hover:text-white rounded-lg" title="Edit">
+                  <Edit3 size={12} />
+                </button>
+                <button onClick={() => handleDelete(persona)} className="p-1 text-gray-500 hover:text-red-400 rounded-lg" title="Delete">
+                  <Trash2 size={12} />
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full max-w-3xl space-y-3">
+      <div className="flex items-center justify-between px-1">
+        <span className="text-xs font-bold text-gray-500 uppercase tracking-wider font-marhey">اختر المعلم (Tutor persona)</span>
+        <button onClick={() => setDraft(createPersona())} disabled={!!draft} className="p-1.5 rounded-lg bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 border border-emerald-500/20 transition-colors disabled:opacity-30" title="New persona">
+          <Plus size={14} />
+        </button>
+      </div>
+
+      {draft && (
+        <div className="rounded-xl p-3 bg-gray-800 border border-emerald-500/30 space-y-2 text-start">
+          <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Name" className={`${inputClass} font-bold text-sm`} dir="auto" />
+          <input value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} placeholder="Short description" className={inputClass} dir="auto" />
+          <textarea
+            value={draft.instructions}
+            onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+            placeholder="Instructions for the tutor, e.g. 'Never give the final answer...'"
+            rows={6}
+            dir="auto"
+            className={`${inputClass} resize-y scrollbar-thin`}
+          />
+          <div className="flex gap-2">
+            <select
+              value={draft.defaultModel || ''}
+              onChange={(e) => setDraft({ ...draft, defaultModel: e.target.value || undefined })}
+              className={inputClass}
+            >
+              <option value="">Default model: keep current</option>
+              {models.map(model => <option key={model.id} value={model.id}>{model.name}</option>)}
+            </select>
+            <input
+              type="number"
+              min="0"
+              max="2"
+              step="0.1"
+              value={draft.temperature ?? ''}
+              onChange={(e) => setDraft({ ...draft, temperature: e.target.value === '' ? undefined : Math.min(2, Math.max(0, parseFloat(e.target.value))) })}
+              placeholder="Temp."
+              title="Temperature (empty = model default)"
+              className={`${inputClass} w-24 font-mono`}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors" title="Cancel">
+              <X size={14} />
+            </button>
+            <button onClick={handleSave} className="p-1.5 text-emerald-400 hover:text-white hover:bg-emerald-500/20 rounded-lg transition-colors" title="Save">
+              <Check size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
+        {renderCard(null)}
+        {BUILT_IN_PERSONAS.map(renderCard)}
+        {personas.filter(p => p.id !== draft?.id).map(renderCard)}
+      </div>
+    </div>
+  );
+};
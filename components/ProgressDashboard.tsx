@@ -0,0 +1,132 @@
+import React from 'react';
+import { Target, Trash2, TrendingUp, TrendingDown, Minus, Dumbbell } from 'lucide-react';
+import { AnswerEvent, ChatSession } from '../types';
+import { TopicStats, formatAccuracy, getAttemptEvents, getTopicStats, getWeakTopics, getWeeklyAccuracy } from '../services/progress';
+
+interface ProgressDashboardProps {
+  progressLog: AnswerEvent[];
+  sessions: ChatSession[];
+  onPractice: (stats: TopicStats) => void;
+  onClear: () => void;
+}
+
+const TREND_WEEKS = 6;
+const WEAK_TOPICS_SHOWN = 5;
+// A change smaller than this between the two trend windows counts as flat
+const TREND_THRESHOLD = 0.05;
+
+const getAccuracyColor = (accuracy: number) =>
+  accuracy >= 0.8 ? 'bg-emerald-500/70' : accuracy >= 0.5 ? 'bg-amber-500/70' : 'bg-red-500/70';
+
+const TrendIcon = ({ stats }: { stats: TopicStats }) => {
+  if (stats.recentAccuracy === undefined || stats.previousAccuracy === undefined) return null;
+  const change = stats.recentAccuracy - stats.previousAccuracy;
+  const title = `Last 7 days ${formatAccuracy(stats.recentAccuracy)}, the 7 before ${formatAccuracy(stats.previousAccuracy)}`;
+  if (change > TREND_THRESHOLD) return <span title={title}><TrendingUp size={12} className="text-emerald-400" /></span>;
+  if (change < -TREND_THRESHOLD) return <span title={title}><TrendingDown size={12} className="text-red-400" /></span>;
+  return <span title={title}><Minus size={12} className="text-gray-500" /></span>;
+};
+
+export const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ progressLog, sessions, onPractice, onClear }) => {
+  const events = [...progressLog, ...getAttemptEvents(sessions)];
+  const stats = getTopicStats(events);
+  const weakTopics = getWeakTopics(stats).slice(0, WEAK_TOPICS_SHOWN);
+  const weeks = getWeeklyAccuracy(events, TREND_WEEKS);
+  const graded = events.filter(e => e.correct !== undefined);
+  const overall = graded.length > 0 ? graded.filter(e => e.correct).length / graded.length : undefined;
+
+  if (events.length === 0) {
+    return (
+      <div className="text-center py-10 text-gray-600 font-marhey text-sm border-2 border-dashed border-gray-800 rounded-xl mx-2">
+        <Target size={32} className="mx-auto mb-3 opacity-20" />
+        <p>No answers yet.</p>
+        <p className="text-[11px] mt-1">Quizzes and A-D questions you answer show up here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-5 pb-4">
+      {/* Overall */}
+      <section className="flex items-center justify-between px-2">
+        <span className="text-xs font-bold text-gray-500 uppercase tracking-wider font-marhey">Accuracy</span>
+        <span className="text-sm font-bold font-mono text-emerald-400">
+          {formatAccuracy(overall)} <span className="text-gray-500 font-normal">of {graded.length}</span>
+        </span>
+      </section>
+
+      {/* Practice */}
+      {weakTopics.length > 0 && (
+        <button
+          onClick={() => onPractice(weakTopics[0])}
+          className="mx-2 flex items-center justify-center gap-2 p-3 rounded-xl bg-emerald-600 hover:bg-emerald-500 text-white text-sm font-bold font-cairo transition-colors"
+        >
+          <Dumbbell size={16} />
+          <span className="truncate" dir="auto">تدرّب على أضعف موضوع (Practice: {weakTopics[0].topic})</span>
+        </button>
+      )}
+
+      {/* Weak topics */}
+      {weakTopics.length > 0 && (
+        <section className="space-y-1.5">
+          <span className="px-2 text-xs font-bold text-gray-500 uppercase tracking-wider font-marhey">Weakest topics</span>
+          {weakTopics.map(topic => (
+            <div key={topic.topic} className="group rounded-xl p-3 bg-gray-900 border border-gray-800 text-xs space-y-1.5">
+              <div className="flex items-center gap-2">
+                <span className="flex-1 font-bold text-gray-300 line-clamp-1" dir="auto">{topic.topic}</span>
+                <TrendIcon stats={topic} />
+                <span className="font-mono text-gray-400">{topic.correct}/{topic.graded}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="flex-1 h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                  <div className={`h-full rounded-full ${getAccuracyColor(topic.accuracy)}`} style={{ width: `${Math.max(2, topic.accuracy * 100)}%` }} />
+                </div>
+                <button onClick={() => onPractice(topic)} className="text-[10px] text-emerald-400/70 hover:text-emerald-300 opacity-0 group-hover:opacity-100 transition-opacity">
+                  Practice
+                </button>
+              </div>
+            </div>
+          ))}
+        </section>
+      )}
+
+      {/* Weekly trend */}
+      <section className="space-y-1.5 px-2">
+        <span className="text-xs font-bold text-gray-500 uppercase tracking-wider font-marhey">Last {TREND_WEEKS} weeks</span>
+        {weeks.map(week => (
+          <div key={week.weekStart} className="flex items-center gap-2 text-[10px] font-mono text-gray-500">
+            <span className="w-12 shrink-0">{new Date(week.weekStart).toLocaleDateString(undefined, { month: '2-digit', day: '2-digit' })}</span>
+            <div className="flex-1 h-2 bg-gray-900 rounded-full overflow-hidden">
+              {week.accuracy !== undefined && (
+                <div className={`h-full rounded-full ${getAccuracyColor(week.accuracy)}`} style={{ width: `${Math.max(2, week.accuracy * 100)}%` }} />
+              )}
+            </div>
+            <span className="w-10 text-right text-gray-400">{formatAccuracy(week.accuracy)}</span>
+            <span className="w-8 text-right">{week.graded}</span>
+          </div>
+        ))}
+      </section>
+
+      {/* All topics */}
+      <section className="space-y-1 px-2">
+        <span className="text-xs font-bold text-gray-500 uppercase tracking-wider font-marhey">All topics</span>
+        {stats.map(topic => (
+          <div key={topic.topic} className="flex items-center gap-2 text-[11px] text-gray-400">
+            <span className="flex-1 line-clamp-1" dir="auto">{topic.topic}</span>
+            <TrendIcon stats={topic} />
+            <span className="font-mono w-10 text-right">{topic.graded > 0 ? formatAccuracy(topic.accuracy) : '–'}</span>
+            <span className="font-mono w-8 text-right text-gray-600">{topic.answered}</span>
+          </div>
+        ))}
+      </section>
+
+      <button
+        onClick={() => window.confirm('Clear the logged answers? Saved quiz attempts stay on their chats.') && onClear()}
+        className="mx-2 flex items-center justify-center gap-2 p-2 rounded-lg text-xs text-gray-500 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+      >
+        <Trash2 size={12} />
+        <span>Clear answer log</span>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Search, Plus, Trash2, Edit3, Check, X, CornerDownLeft, Bookmark } from 'lucide-react';
+import { SavedPrompt } from '../types';
+import { createPrompt, extractPlaceholders, searchPrompts } from '../services/prompts';
+
+interface PromptLibraryProps {
+  prompts: SavedPrompt[];
+  onChange: (prompts: SavedPrompt[]) => void;
+  onUse: (prompt: SavedPrompt) => void;
+}
+
+export const PromptLibrary: React.FC<PromptLibraryProps> = ({ prompts, onChange, onUse }) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [draftContent, setDraftContent] = useState('');
+
+  const filtered = searchPrompts(prompts, query);
+
+  const startEditing = (prompt: SavedPrompt) => {
+    setEditingId(prompt.id);
+    setDraftTitle(prompt.title);
+    setDraftContent(prompt.content);
+  };
+
+  const handleCreate = () => {
+    const prompt = createPrompt('', 'New prompt');
+    onChange([prompt, ...prompts]);
+    setQuery('');
+    startEditing(prompt);
+  };
+
+  const handleSave = () => {
+    if (!editingId) return;
+    if (!draftContent.trim()) {
+      alert("Prompt text cannot be empty");
+      return;
+    }
+    onChange(prompts.map(p => p.id === editingId ? { ...p, title: draftTitle.trim() || p.title, content: draftContent } : p));
+    setEditingId(null);
+  };
+
+  const handleCancel = () => {
+    // A prompt created from "New" and never filled in is discarded
+    const editing = prompts.find(p => p.id === editingId);
+    if (editing && !editing.content.trim()) {
+      onChange(prompts.filter(p => p.id !== editingId));
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (id: string) => {
+    if (window.confirm('Delete this prompt?')) {
+      onChange(prompts.filter(p => p.id !== id));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-2 px-1">
+        <div className="relative flex-1">
+          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search prompts..."
+            dir="auto"
+            className="w-full bg-gray-900 border border-gray-800 rounded-lg py-2 pl-9 pr-3 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-emerald-500/50"
+          />
+        </div>
+        <button onClick={handleCreate} className="p-2 rounded-lg bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 border border-emerald-500/20 transition-colors" title="New prompt">
+          <Plus size={16} />
+        </button>
+      </div>
+
+      {filtered.length === 0 ? (
+        <div className="text-center py-10 text-gray-600 font-marhey text-sm border-2 border-dashed border-gray-800 rounded-xl mx-2">
+          <Bookmark size={32} className="mx-auto mb-3 opacity-20" />
+          <p>{prompts.length === 0 ? 'No saved prompts yet.' : 'No prompts match your search.'}</p>
+          {prompts.length === 0 && <p className="text-[11px] mt-2 px-4">Save any of your messages from its action bar, then type / in the chat box to reuse it.</p>}
+        </div>
+      ) : (
+        filtered.map(prompt => editingId === prompt.id ? (
+          <div key={prompt.id} className="rounded-xl p-3 bg-gray-800 border border-emerald-500/30 space-y-2">
+            <input
+              value={draftTitle}
+              onChange={(e) => setDraftTitle(e.target.value)}
+              placeholder="Title"
+              dir="auto"
+              className="w-full bg-black/30 border border-gray-700 rounded-lg px-2 py-1.5 text-sm font-bold text-gray-100 focus:outline-none focus:border-emerald-500/50"
+            />
+            <textarea
+              value={draftContent}
+              onChange={(e) => setDraftContent(e.target.value)}
+              placeholder="Prompt text. Use {{placeholders}} for values you fill in when using it."
+              dir="auto"
+              rows={5}
+              className="w-full bg-black/30 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-emerald-500/50 resize-y scrollbar-thin"
+            />
+            <div className="flex justify-end gap-2">
+              <button onClick={handleCancel} className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors" title="Cancel">
+                <X size={14} />
+              </button>
+              <button onClick={handleSave} className="p-1.5 text-emerald-400 hover:text-white hover:bg-emerald-500/20 rounded-lg transition-colors" title="Save">
+                <Check size={14} />
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div key={prompt.id} className="group relative rounded-xl p-3 hover:bg-gray-800/50 border border-transparent hover:border-gray-700 transition-all">
+            <h3 className="font-bold text-sm text-gray-300 line-clamp-1 font-marhey pr-16" dir="auto">{prompt.title}</h3>
+            <p className="text-gray-500 text-xs line-clamp-2 mt-1" dir="auto">{prompt.content}</p>
+            {extractPlaceholders(prompt.content).length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {extractPlaceholders(prompt.content).map(name => (
+                  <span key={name} className="text-[10px] px-1.5 py-0.5 rounded bg-indigo-500/10 text-indigo-300 border border-indigo-500/20 font-mono">{`{{${name}}}`}</span>
+                ))}
+              </div>
+            )}
+            <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button onClick={() => onUse(prompt)} className="p-1.5 text-gray-500 hover:text-emerald-400 rounded-lg" title="Use in chat">
+                <CornerDownLeft size={14} />
+              </button>
+              <button onClick={() => startEditing(prompt)} className="p-1.5 text-gray-500 hover:text-white rounded-lg" title="Edit">
+                <Edit3 size={14} />
+              </button>
+              <button onClick={() => handleDelete(prompt.id)} className="p-1.5 text-gray-500 hover:text-red-400 rounded-lg" title="Delete">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
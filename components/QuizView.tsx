@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { CheckCircle2, XCircle, ClipboardList, RotateCcw, History, Trophy } from 'lucide-react';
+import { Quiz, QuizAttempt } from '../types';
+import { getOptionLetter, scoreAnswers } from '../services/quiz';
+
+interface QuizViewProps {
+  quiz: Quiz;
+  attempts: QuizAttempt[]; // Earlier attempts at this quiz, oldest first
+  onComplete?: (answers: (number | null)[]) => void;
+}
+
+const DIFFICULTY_STYLES: Record<string, string> = {
+  easy: 'text-emerald-400 bg-emerald-500/10 border-emerald-500/20',
+  medium: 'text-amber-400 bg-amber-500/10 border-amber-500/20',
+  hard: 'text-red-400 bg-red-500/10 border-red-500/20'
+};
+
+// Inline Markdown with KaTeX, without the paragraph margins
+export const MathText = ({ text }: { text: string }) => (
+  <ReactMarkdown
+    remarkPlugins={[remarkMath]}
+    rehypePlugins={[rehypeKatex]}
+    components={{ p: ({node, ...props}) => <span {...props} /> }}
+  >
+    {text}
+  </ReactMarkdown>
+);
+
+// Native quiz: each answer is checked at once, and the attempt is saved when the last
+// question is answered. A saved attempt can be opened again read-only.
+export const QuizView: React.FC<QuizViewProps> = ({ quiz, attempts, onComplete }) => {
+  const [answers, setAnswers] = useState<(number | null)[]>(() => quiz.questions.map(() => null));
+  const [reviewedAttempt, setReviewedAttempt] = useState<QuizAttempt | null>(null);
+
+  const shownAnswers = reviewedAttempt ? reviewedAttempt.answers : answers;
+  const answeredCount = answers.filter(a => a !== null).length;
+  const isFinished = answeredCount === quiz.questions.length;
+  const score = scoreAnswers(quiz, shownAnswers);
+
+  const handleAnswer = (questionIndex: number, optionIndex: number) => {
+    if (reviewedAttempt || answers[questionIndex] !== null) return;
+    const next = answers.map((a, i) => i === questionIndex ? optionIndex : a);
+    setAnswers(next);
+    if (next.every(a => a !== null)) onComplete?.(next);
+  };
+
+  const restart = () => {
+    setReviewedAttempt(null);
+    setAnswers(quiz.questions.map(() => null));
+  };
+
+  return (
+    <div className="rounded-2xl border border-indigo-500/20 bg-gradient-to-b from-indigo-600/5 to-transparent p-4 md:p-6 space-y-5">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div className="flex items-center gap-2">
+          <ClipboardList size={20} className="text-indigo-400" />
+          <h3 className="text-lg font-bold font-cairo text-indigo-200">{quiz.title}</h3>
+        </div>
+        <span className="text-xs font-mono text-gray-400 px-2 py-1 rounded bg-black/20">
+          {reviewedAttempt || isFinished
+            ? `${score}/${quiz.questions.length}`
+            : `${answeredCount}/${quiz.questions.length} answered`}
+        </span>
+      </div>
+
+      {reviewedAttempt && (
+        <div className="flex items-center justify-between text-xs text-sky-300 px-3 py-2 rounded-lg bg-sky-500/10 border border-sky-500/20">
+          <span>Reviewing the attempt of {new Date(reviewedAttempt.completedAt).toLocaleString()}</span>
+          <button onClick={() => setReviewedAttempt(null)} className="underline underline-offset-2 hover:text-white">Back</button>
+        </div>
+      )}
+
+      {/* Questions */}
+      <ol className="space-y-6 list-none p-0 m-0">
+        {quiz.questions.map((q, qi) => {
+          const chosen = shownAnswers[qi];
+          const isAnswered = chosen !== null && chosen !== undefined;
+          return (
+            <li key={qi} className="space-y-3">
+              <div className="flex items-start gap-3">
+                <span className="shrink-0 w-7 h-7 rounded-full bg-indigo-500/20 text-indigo-300 flex items-center justify-center text-sm font-bold">{qi + 1}</span>
+                <div className="flex-1 space-y-1.5">
+                  <div className="text-gray-100 leading-relaxed font-marhey" dir="auto"><MathText text={q.question} /></div>
+                  <div className="flex flex-wrap gap-1.5 text-[10px]">
+                    <span className={`px-1.5 py-0.5 rounded border ${DIFFICULTY_STYLES[q.difficulty]}`}>{q.difficulty}</span>
+                    <span className="px-1.5 py-0.5 rounded border border-gray-700 text-gray-400">{q.topic}</span>
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid gap-2 md:grid-cols-2">
+                {q.options.map((option, oi) => {
+                  const isCorrect = oi === q.correctIndex;
+                  const isChosen = oi === chosen;
+                  const style = !isAnswered
+                    ? 'bg-gray-800/50 border-gray-700/50 hover:bg-indigo-600/20 hover:border-indigo-500/50'
+                    : isCorrect
+                      ? 'bg-emerald-500/15 border-emerald-500/50'
+                      : isChosen
+                        ? 'bg-red-500/15 border-red-500/50'
+                        : 'bg-gray-800/30 border-gray-800 opacity-60';
+                  return (
+                    <button
+                      key={oi}
+                      onClick={() => handleAnswer(qi, oi)}
+                      disabled={isAnswered || !!reviewedAttempt}
+                      className={`w-full text-start p-3 rounded-xl border transition-all flex items-center gap-3 ${style}`}
+                    >
+                      <span className="shrink-0 w-8 h-8 rounded-full bg-gray-700 text-gray-200 flex items-center justify-center font-bold text-sm">{getOptionLetter(oi)}</span>
+                      <span className="flex-1 text-gray-200 text-sm" dir="auto"><MathText text={option} /></span>
+                      {isAnswered && isCorrect && <CheckCircle2 size={18} className="text-emerald-400 shrink-0" />}
+                      {isAnswered && isChosen && !isCorrect && <XCircle size={18} className="text-red-400 shrink-0" />}
+                    </button>
+                  );
+                })}
+              </div>
+
+              {isAnswered && q.explanation && (
+                <div className="text-sm text-gray-300 p-3 rounded-xl bg-black/20 border border-gray-800 leading-relaxed" dir="auto">
+                  <MathText text={q.explanation} />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {/* Result */}
+      {isFinished && !reviewedAttempt && (
+        <div className="flex items-center justify-between gap-3 p-4 rounded-xl bg-indigo-500/10 border border-indigo-500/30">
+          <div className="flex items-center gap-2 text-indigo-200 font-bold font-cairo">
+            <Trophy size={18} className="text-amber-400" />
+            <span>النتيجة (Score): {score}/{quiz.questions.length}</span>
+          </div>
+          <button onClick={restart} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-500/20 hover:bg-indigo-500/30 text-indigo-200 text-xs transition-colors">
+            <RotateCcw size={12} />
+            <span>إعادة (Retake)</span>
+          </button>
+        </div>
+      )}
+
+      {/* Saved attempts */}
+      {attempts.length > 0 && (
+        <div className="pt-3 border-t border-gray-800 space-y-1.5">
+          <div className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-gray-500">
+            <History size={12} />
+            <span>Attempts</span>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {attempts.map((attempt, i) => (
+              <button
+                key={attempt.id}
+                onClick={() => setReviewedAttempt(attempt)}
+                className={`px-2 py-1 rounded-lg text-[11px] font-mono border transition-colors ${reviewedAttempt?.id === attempt.id ? 'bg-sky-500/15 border-sky-500/30 text-sky-300' : 'border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800'}`}
+                title={new Date(attempt.completedAt).toLocaleString()}
+              >
+                #{i + 1} • {attempt.score}/{attempt.total}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
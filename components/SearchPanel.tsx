@@ -0,0 +1,72 @@
+import React, { useMemo, useState } from 'react';
+import { Search, User, BookOpen } from 'lucide-react';
+import { ChatSession } from '../types';
+import { buildSearchIndex, searchMessages, SearchMatch } from '../services/search';
+import { getTextDirection } from '../utils/messageContent';
+
+interface SearchPanelProps {
+  sessions: ChatSession[];
+  onJump: (sessionId: string, messageId: string) => void;
+}
+
+const MIN_QUERY_LENGTH = 2;
+
+const HighlightedSnippet = ({ match }: { match: SearchMatch }) => {
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+  match.highlights.forEach(([start, end], i) => {
+    if (start < cursor) return; // Overlapping terms
+    segments.push(match.snippet.slice(cursor, start));
+    segments.push(<mark key={i} className="bg-amber-500/30 text-amber-200 rounded px-0.5">{match.snippet.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  segments.push(match.snippet.slice(cursor));
+  return <>{segments}</>;
+};
+
+export const SearchPanel: React.FC<SearchPanelProps> = ({ sessions, onJump }) => {
+  const [query, setQuery] = useState('');
+
+  // Rebuilt only when sessions change, not on every keystroke
+  const index = useMemo(() => buildSearchIndex(sessions), [sessions]);
+  const results = useMemo(
+    () => (query.trim().length >= MIN_QUERY_LENGTH ? searchMessages(index, query) : []),
+    [index, query]
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="relative px-1">
+        <Search size={14} className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500" />
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="ابحث في كل المحادثات... / Search all chats"
+          dir="auto"
+          className="w-full bg-gray-900 border border-gray-800 rounded-lg py-2 pl-9 pr-3 text-sm text-gray-200 placeholder-gray-600 focus:outline-none focus:border-emerald-500/50"
+        />
+      </div>
+
+      {query.trim().length >= MIN_QUERY_LENGTH && (
+        <div className="px-2 text-[10px] text-gray-500 font-mono">{results.length} results</div>
+      )}
+
+      {results.map(match => (
+        <button
+          key={`${match.sessionId}/${match.messageId}`}
+          onClick={() => onJump(match.sessionId, match.messageId)}
+          className="text-left rounded-xl p-3 hover:bg-gray-800/50 border border-transparent hover:border-gray-700 transition-all"
+        >
+          <div className="flex items-center gap-1.5 mb-1 text-[11px] text-emerald-400/80 font-bold font-marhey">
+            {match.role === 'user' ? <User size={12} /> : <BookOpen size={12} />}
+            <span className="line-clamp-1">{match.sessionTitle}</span>
+          </div>
+          <p className="text-xs text-gray-400 leading-relaxed line-clamp-3" dir={getTextDirection(match.snippet)}>
+            <HighlightedSnippet match={match} />
+          </p>
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -1,6 +1,17 @@
-import React, { useRef } from 'react';
-import { X, Trash2, Plus, MessageSquare, Upload, Download, BookOpen, LogOut, Settings } from 'lucide-react';
-import { ChatSession } from '../types';
+import React, { useRef, useState } from 'react';
+import { X, Trash2, Plus, MessageSquare, Upload, Download, BookOpen, LogOut, Settings, AlertTriangle, GitMerge, Replace, Bookmark, Search, Cpu, Server, BarChart3, Target } from 'lucide-react';
+import { AnswerEvent, ChatSession, ModelId, ModelInfo, OpenAIEndpoint, ProviderId, SavedPrompt } from '../types';
+import { PromptLibrary } from './PromptLibrary';
+import { SearchPanel } from './SearchPanel';
+import { EndpointSettings } from './EndpointSettings';
+import { FallbackChainSettings } from './FallbackChainSettings';
+import { UsageDashboard } from './UsageDashboard';
+import { ProgressDashboard } from './ProgressDashboard';
+import { UsageLog } from '../services/usage';
+import { TopicStats } from '../services/progress';
+import { PROVIDER_LIST } from '../services/provider';
+import { createBackup, parseBackup, ImportMode, ImportResult } from '../services/backup';
+import { getErrorMessage } from '../services/fallback';
 
 interface SideMenuProps {
   isOpen: boolean;
@@ -11,6 +22,25 @@ interface SideMenuProps {
   onDeleteSession: (id: string) => void;
   onNewSession: () => void;
   onLogout: () => void;
+  onImportSessions: (sessions: ChatSession[], mode: ImportMode) => void;
+  prompts: SavedPrompt[];
+  onPromptsChange: (prompts: SavedPrompt[]) => void;
+  onUsePrompt: (prompt: SavedPrompt) => void;
+  onJumpToMessage: (sessionId: string, messageId: string) => void;
+  providerId: ProviderId;
+  onProviderChange: (id: ProviderId) => void;
+  endpoints: OpenAIEndpoint[];
+  onEndpointsChange: (endpoints: OpenAIEndpoint[]) => void;
+  models: ModelInfo[];
+  fallbackChain: ModelId[];
+  onFallbackChainChange: (chain: ModelId[]) => void;
+  usageLog: UsageLog;
+  dailyBudgetUsd?: number;
+  onBudgetChange: (budget: number | undefined) => void;
+  onClearUsage: () => void;
+  progressLog: AnswerEvent[];
+  onPracticeTopic: (stats: TopicStats) => void;
+  onClearProgress: () => void;
 }
 
 export const SideMenu: React.FC<SideMenuProps> = ({ 
@@ -21,12 +51,33 @@ export const SideMenu: React.FC<SideMenuProps> = ({
   onSelectSession, 
   onDeleteSession,
   onNewSession,
-  onLogout
+  onLogout,
+  onImportSessions,
+  prompts,
+  onPromptsChange,
+  onUsePrompt,
+  onJumpToMessage,
+  providerId,
+  onProviderChange,
+  endpoints,
+  onEndpointsChange,
+  models,
+  fallbackChain,
+  onFallbackChainChange,
+  usageLog,
+  dailyBudgetUsd,
+  onBudgetChange,
+  onClearUsage,
+  progressLog,
+  onPracticeTopic,
+  onClearProgress
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<ImportResult | null>(null);
+  const [activeTab, setActiveTab] = useState<'history' | 'prompts' | 'search' | 'progress' | 'models' | 'usage'>('history');
 
   const handleExport = () => {
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(sessions));
+    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(createBackup(sessions)));
     const downloadAnchorNode = document.createElement('a');
     downloadAnchorNode.setAttribute("href", dataStr);
     downloadAnchorNode.setAttribute("download", "ayat_bayyinat_history.json");
@@ -42,20 +93,23 @@ export const SideMenu: React.FC<SideMenuProps> = ({
       reader.onload = (e) => {
         try {
           const content = e.target?.result as string;
-          const parsed = JSON.parse(content);
-          if (Array.isArray(parsed)) {
-            // Simple validation could be added here
-             localStorage.setItem('ayat_chat_sessions', JSON.stringify(parsed));
-             window.location.reload(); // Simple reload to reflect changes
-          } else {
-            alert("Invalid JSON format");
-          }
-        } catch (err) {
-          alert("Error reading file");
+          // Nothing is written yet: the user picks merge or replace from the preview
+          setPendingImport(parseBackup(content));
+        } catch (err: unknown) {
+          alert(getErrorMessage(err) || "Error reading file");
         }
       };
       reader.readAsText(file);
     }
+    // Allow picking the same file again
+    event.target.value = '';
+  };
+
+  const confirmImport = (mode: ImportMode) => {
+    if (!pendingImport) return;
+    if (mode === 'replace' && !window.confirm('Replace ALL current chats with this backup?')) return;
+    onImportSessions(pendingImport.sessions, mode);
+    setPendingImport(null);
   };
 
   return (
@@ -93,7 +147,82 @@ export const SideMenu: React.FC<SideMenuProps> = ({
             </button>
         </div>
 
-        {/* Sessions List */}
+        {/* Tabs */}
+        <div className="flex gap-1 mx-4 mb-3 p-1 bg-gray-900 rounded-xl border border-gray-800">
+          <button
+            onClick={() => setActiveTab('history')}
+            className={`flex-1 flex flex-col items-center justify-center gap-0.5 py-1.5 rounded-lg text-[10px] font-bold font-marhey transition-colors ${activeTab === 'history' ? 'bg-gray-800 text-emerald-400' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            <MessageSquare size={14} />
+            <span>History</span>
+          </button>
+          <button
+            onClick={() => setActiveTab('prompts')}
+            className={`flex-1 flex flex-col items-center justify-center gap-0.5 py-1.5 rounded-lg text-[10px] font-bold font-marhey transition-colors ${activeTab === 'prompts' ? 'bg-gray-800 text-emerald-400' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            <Bookmark size={14} />
+            <span>Prompts ({prompts.length})</span>
+          </button>
+          <button
+            onClick={() => setActiveTab('search')}
+            className={`flex-1 flex flex-col items-center justify-center gap-0.5 py-1.5 rounded-lg text-[10px] font-bold font-marhey transition-colors ${activeTab === 'search' ? 'bg-gray-800 text-emerald-400' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            <Search size={14} />
+            <span>Search</span>
+          </button>
+          <button
+            onClick={() => setActiveTab('progress')}
+            className={`flex-1 flex flex-col items-center justify-center gap-0.5 py-1.5 rounded-lg text-[10px] font-bold font-marhey transition-colors ${activeTab === 'progress' ? 'bg-gray-800 text-emerald-400' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            <Target size={14} />
+            <span>Progress</span>
+          </button>
+          <button
+            onClick={() => setActiveTab('models')}
+            className={`flex-1 flex flex-col items-center justify-center gap-0.5 py-1.5 rounded-lg text-[10px] font-bold font-marhey transition-colors ${activeTab === 'models' ? 'bg-gray-800 text-emerald-400' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            <Server size={14} />
+            <span>Models</span>
+          </button>
+          <button
+            onClick={() => setActiveTab('usage')}
+            className={`flex-1 flex flex-col items-center justify-center gap-0.5 py-1.5 rounded-lg text-[10px] font-bold font-marhey transition-colors ${activeTab === 'usage' ? 'bg-gray-800 text-emerald-400' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            <BarChart3 size={14} />
+            <span>Usage</span>
+          </button>
+        </div>
+
+        {activeTab === 'usage' ? (
+          <div className="flex-1 overflow-y-auto px-3 scrollbar-thin">
+            <UsageDashboard
+              usageLog={usageLog}
+              models={models}
+              currentSession={sessions.find(s => s.id === currentSessionId)}
+              dailyBudgetUsd={dailyBudgetUsd}
+              onBudgetChange={onBudgetChange}
+              onClear={onClearUsage}
+            />
+          </div>
+        ) : activeTab === 'progress' ? (
+          <div className="flex-1 overflow-y-auto px-3 scrollbar-thin">
+            <ProgressDashboard progressLog={progressLog} sessions={sessions} onPractice={onPracticeTopic} onClear={onClearProgress} />
+          </div>
+        ) : activeTab === 'models' ? (
+          <div className="flex-1 overflow-y-auto px-3 space-y-6 scrollbar-thin">
+            <FallbackChainSettings chain={fallbackChain} models={models} onChange={onFallbackChainChange} />
+            <EndpointSettings endpoints={endpoints} onChange={onEndpointsChange} />
+          </div>
+        ) : activeTab === 'search' ? (
+          <div className="flex-1 overflow-y-auto px-3 scrollbar-thin">
+            <SearchPanel sessions={sessions} onJump={onJumpToMessage} />
+          </div>
+        ) : activeTab === 'prompts' ? (
+          <div className="flex-1 overflow-y-auto px-3 scrollbar-thin">
+            <PromptLibrary prompts={prompts} onChange={onPromptsChange} onUse={onUsePrompt} />
+          </div>
+        ) : (
+        /* Sessions List */
         <div className="flex-1 overflow-y-auto px-3 space-y-1 scrollbar-thin">
           <div className="px-2 pb-2 text-xs font-bold text-gray-500 uppercase tracking-wider font-marhey">History</div>
           
@@ -132,9 +261,79 @@ export const SideMenu: React.FC<SideMenuProps> = ({
             ))
           )}
         </div>
+        )}
+
+        {/* Import Preview */}
+        {pendingImport && (
+          <div className="mx-4 mb-3 p-4 rounded-xl bg-gray-900 border border-gray-700 space-y-3 font-marhey text-sm">
+            <div className="flex items-center justify-between">
+              <span className="font-bold text-gray-200">Import Backup</span>
+              <button onClick={() => setPendingImport(null)} className="p-1 text-gray-500 hover:text-white rounded-lg">
+                <X size={14} />
+              </button>
+            </div>
+            <p className="text-gray-400 text-xs">
+              <span className="text-emerald-400 font-bold">{pendingImport.sessions.length}</span> chats ready to import
+              {pendingImport.rejected.length > 0 && (
+                <>, <span className="text-red-400 font-bold">{pendingImport.rejected.length}</span> entries rejected</>
+              )}
+            </p>
+
+            {pendingImport.rejected.length > 0 && (
+              <ul className="max-h-32 overflow-y-auto space-y-1 scrollbar-thin">
+                {pendingImport.rejected.map((entry, i) => (
+                  <li key={i} className="flex items-start gap-2 text-[11px] text-red-300/90">
+                    <AlertTriangle size={12} className="shrink-0 mt-0.5 text-red-400" />
+                    <span>
+                      {entry.title && <span className="font-bold">{entry.title}: </span>}
+                      {entry.reason}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {pendingImport.sessions.length > 0 && (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => confirmImport('merge')}
+                  className="flex-1 flex items-center justify-center gap-1.5 p-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-white text-xs font-bold transition-colors"
+                  title="Keep existing chats; the newer copy wins for duplicates"
+                >
+                  <GitMerge size={14} />
+                  <span>دمج (Merge)</span>
+                </button>
+                <button
+                  onClick={() => confirmImport('replace')}
+                  className="flex-1 flex items-center justify-center gap-1.5 p-2 rounded-lg bg-red-500/10 hover:bg-red-500/20 text-red-400 text-xs font-bold border border-red-500/20 transition-colors"
+                  title="Delete current chats and use only the backup"
+                >
+                  <Replace size={14} />
+                  <span>استبدال (Replace)</span>
+                </button>
+              </div>
+            )}
+          </div>
+        )}
 
         {/* Footer Actions */}
         <div className="p-4 border-t border-gray-800 bg-gray-900/30 space-y-3">
+          <div className="flex items-center gap-2">
+            <Cpu size={14} className="text-gray-500 shrink-0" />
+            <div className="flex flex-1 bg-gray-900 rounded-lg p-1 border border-gray-800 text-xs font-bold">
+              {PROVIDER_LIST.map(provider => (
+                <button
+                  key={provider.id}
+                  onClick={() => onProviderChange(provider.id)}
+                  className={`flex-1 py-1.5 rounded-md transition-colors ${providerId === provider.id ? 'bg-emerald-500/15 text-emerald-400' : 'text-gray-500 hover:text-gray-300'}`}
+                  title={provider.requiresApiKey ? 'Uses your API Key' : 'Scripted replies, works offline'}
+                >
+                  {provider.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
           <button 
             onClick={onLogout}
             className="w-full flex items-center justify-center gap-2 p-3 rounded-xl bg-red-500/10 hover:bg-red-500/20 text-red-400 font-medium text-sm transition-colors border border-red-500/20 group"
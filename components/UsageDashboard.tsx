@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { BarChart3, Trash2, Wallet } from 'lucide-react';
+import { ChatSession, ModelInfo } from '../types';
+import { UsageLog, estimateCost, formatCost, formatTokens, getDayCost, getDayKey, getTotalTokens } from '../services/usage';
+
+interface UsageDashboardProps {
+  usageLog: UsageLog;
+  models: ModelInfo[];
+  currentSession?: ChatSession;
+  dailyBudgetUsd?: number;
+  onBudgetChange: (budget: number | undefined) => void;
+  onClear: () => void;
+}
+
+const HISTORY_DAYS = 7;
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ usageLog, models, currentSession, dailyBudgetUsd, onBudgetChange, onClear }) => {
+  const [budgetDraft, setBudgetDraft] = useState(dailyBudgetUsd ? String(dailyBudgetUsd) : '');
+
+  const getName = (id: string) => models.find(m => m.id === id)?.name || id;
+
+  const today = getDayKey();
+  const todayEntries = Object.entries(usageLog[today] || {}).sort(([, a], [, b]) => getTotalTokens(b) - getTotalTokens(a));
+  const todayCost = getDayCost(usageLog, today);
+
+  const days = Array.from({ length: HISTORY_DAYS }, (_, i) => {
+    const date = new Date();
+    date.setDate(date.getDate() - i);
+    const key = getDayKey(date);
+    const tokens = Object.values(usageLog[key] || {}).reduce((sum, usage) => sum + getTotalTokens(usage), 0);
+    return { key, tokens, cost: getDayCost(usageLog, key) };
+  });
+  const maxTokens = Math.max(1, ...days.map(d => d.tokens));
+
+  const commitBudget = () => {
+    const value = parseFloat(budgetDraft);
+    onBudgetChange(value > 0 ? value : undefined);
+    if (!(value > 0)) setBudgetDraft('');
+  };
+
+  return (
+    <div className="flex flex-col gap-5 pb-4">
+      {/* Today */}
+      <section className="space-y-2">
+        <div className="flex items-center justify-between px-2">
+          <span className="text-xs font-bold text-gray-500 uppercase tracking-wider font-marhey">Today</span>
+          <span className={`text-sm font-bold font-mono ${dailyBudgetUsd && todayCost >= dailyBudgetUsd ? 'text-red-400' : 'text-emerald-400'}`}>
+            {formatCost(todayCost)}{dailyBudgetUsd ? ` / ${formatCost(dailyBudgetUsd)}` : ''}
+          </span>
+        </div>
+
+        {todayEntries.length === 0 ? (
+          <div className="text-center py-8 text-gray-600 font-marhey text-sm border-2 border-dashed border-gray-800 rounded-xl mx-2">
+            <BarChart3 size={32} className="mx-auto mb-3 opacity-20" />
+            <p>No usage today.</p>
+          </div>
+        ) : (
+          todayEntries.map(([modelId, usage]) => (
+            <div key={modelId} className="rounded-xl p-3 bg-gray-900 border border-gray-800 text-xs">
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-bold text-gray-300 line-clamp-1">{getName(modelId)}</span>
+                <span className="font-mono text-gray-400">{formatCost(estimateCost(modelId, usage))}</span>
+              </div>
+              <div className="flex flex-wrap gap-x-3 gap-y-0.5 text-[10px] text-gray-500 font-mono">
+                <span>{usage.requests} req</span>
+                <span>in {formatTokens(usage.promptTokens)}</span>
+                <span>out {formatTokens(usage.responseTokens)}</span>
+                {usage.thinkingTokens > 0 && <span>thinking {formatTokens(usage.thinkingTokens)}</span>}
+              </div>
+            </div>
+          ))
+        )}
+      </section>
+
+      {/* Last days */}
+      <section className="space-y-1.5 px-2">
+        <span className="text-xs font-bold text-gray-500 uppercase tracking-wider font-marhey">Last {HISTORY_DAYS} days</span>
+        {days.map(day => (
+          <div key={day.key} className="flex items-center gap-2 text-[10px] font-mono text-gray-500">
+            <span className="w-12 shrink-0">{day.key.slice(5)}</span>
+            <div className="flex-1 h-2 bg-gray-900 rounded-full overflow-hidden">
+              <div className="h-full bg-emerald-500/60 rounded-full" style={{ width: `${(day.tokens / maxTokens) * 100}%` }} />
+            </div>
+            <span className="w-12 text-right">{formatTokens(day.tokens)}</span>
+            <span className="w-12 text-right text-gray-400">{formatCost(day.cost)}</span>
+          </div>
+        ))}
+      </section>
+
+      {/* Current chat */}
+      {currentSession?.usage && (
+        <section className="px-2 text-[11px] text-gray-500">
+          <span className="font-bold text-gray-400">This chat:</span>{' '}
+          <span className="font-mono">{formatTokens(getTotalTokens(currentSession.usage))} tokens</span>
+          <span className="font-mono text-gray-600"> (in {formatTokens(currentSession.usage.promptTokens)} • out {formatTokens(currentSession.usage.responseTokens)}{currentSession.usage.thinkingTokens > 0 ? ` • thinking ${formatTokens(currentSession.usage.thinkingTokens)}` : ''})</span>
+        </section>
+      )}
+
+      {/* Budget */}
+      <section className="space-y-2 px-2">
+        <label className="flex items-center gap-1.5 text-xs font-bold text-gray-500 uppercase tracking-wider font-marhey">
+          <Wallet size={12} />
+          <span>Daily budget (USD)</span>
+        </label>
+        <input
+          type="number"
+          min="0"
+          step="0.5"
+          value={budgetDraft}
+          onChange={(e) => setBudgetDraft(e.target.value)}
+          onBlur={commitBudget}
+          onKeyDown={(e) => e.key === 'Enter' && commitBudget()}
+          placeholder="No budget"
+          className="w-full bg-gray-900 border border-gray-800 rounded-lg px-3 py-2 text-sm text-gray-200 font-mono placeholder-gray-600 focus:outline-none focus:border-emerald-500/50"
+        />
+        <p className="text-[10px] text-gray-600">
+          Past this estimate, sending to an expensive model (e.g. Gemini 3 Pro) asks first. Costs are estimated from list prices.
+        </p>
+      </section>
+
+      <button
+        onClick={() => window.confirm('Clear the usage history? Chat totals are kept.') && onClear()}
+        className="mx-2 flex items-center justify-center gap-2 p-2 rounded-lg text-xs text-gray-500 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+      >
+        <Trash2 size={12} />
+        <span>Clear usage history</span>
+      </button>
+    </div>
+  );
+};
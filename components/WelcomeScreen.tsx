@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { BookOpen, Key, User, ArrowRight, ExternalLink } from 'lucide-react';
+import { BookOpen, Key, User, ArrowRight, ExternalLink, FlaskConical } from 'lucide-react';
 import { UserSettings } from '../types';
 
 interface WelcomeScreenProps {
@@ -24,9 +24,23 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onComplete }) => {
     
     const settings: UserSettings = {
       apiKey: apiKey.trim(),
-      userName: userName.trim()
+      userName: userName.trim(),
+      providerId: 'gemini'
     };
     
+    saveAndComplete(settings);
+  };
+
+  // Offline demo: scripted replies from the mock provider, no key needed
+  const handleOfflineDemo = () => {
+    saveAndComplete({
+      apiKey: '',
+      userName: userName.trim() || 'Guest',
+      providerId: 'mock'
+    });
+  };
+
+  const saveAndComplete = (settings: UserSettings) => {
     // Save to local storage
     localStorage.setItem('ayat_user_settings', JSON.stringify(settings));
     onComplete(settings);
@@ -101,6 +115,15 @@ export const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onComplete }) => {
                <span>Start Chatting</span>
                <ArrowRight size={18} />
              </button>
+
+             <button 
+               type="button" 
+               onClick={handleOfflineDemo}
+               className="w-full flex items-center justify-center gap-2 text-xs text-gray-500 hover:text-purple-400 transition-colors"
+             >
+               <FlaskConical size={14} />
+               <span>Try offline without a key (Mock Provider)</span>
+             </button>
           </form>
           
           <p className="text-center text-[10px] text-gray-600 mt-6">
@@ -0,0 +1,318 @@
+import { Attachment, ChatSession, Grounding, Message, Quiz, QuizAttempt, SafetyThreshold, SessionPersona, TokenUsage } from "../types";
+import { base64ToBlob } from "./storage";
+import { getAttachmentMimeType } from "./gemini";
+import { parseQuiz } from "./quiz";
+import { getErrorMessage } from "./fallback";
+
+// Versioned backup format for exporting/importing chat history.
+// Version 0 is the legacy bare `ChatSession[]` array written by older builds.
+export const BACKUP_VERSION = 1;
+
+export interface ChatBackup {
+  version: number;
+  exportedAt: number;
+  sessions: ChatSession[];
+}
+
+export interface RejectedEntry {
+  sessionId?: string;
+  messageId?: string;
+  title?: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  version: number;
+  sessions: ChatSession[];
+  rejected: RejectedEntry[];
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+const ATTACHMENT_TYPES: Attachment['type'][] = ['image', 'audio', 'pdf', 'other'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isAttachmentType = (value: unknown): value is Attachment['type'] => ATTACHMENT_TYPES.some(type => type === value);
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+const optionalBoolean = (value: unknown) => (typeof value === 'boolean' ? value : undefined);
+const optionalNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+const tokenCount = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : 0);
+
+// Usage is informational: a malformed one is dropped rather than rejecting the entry
+const optionalUsage = (value: unknown): TokenUsage | undefined => {
+  if (!isObject(value)) return undefined;
+  return {
+    promptTokens: tokenCount(value.promptTokens),
+    responseTokens: tokenCount(value.responseTokens),
+    thinkingTokens: tokenCount(value.thinkingTokens)
+  };
+};
+
+const optionalPersona = (value: unknown): SessionPersona | undefined => {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.instructions !== 'string') return undefined;
+  return { id: value.id, name: optionalString(value.name) || value.id, instructions: value.instructions };
+};
+
+const isRawSource = (value: unknown): value is { uri: string; title?: unknown } =>
+  isObject(value) && typeof value.uri === 'string';
+
+const isRawCitation = (value: unknown): value is { text: string; sources: unknown[] } =>
+  isObject(value) && typeof value.text === 'string' && Array.isArray(value.sources);
+
+// Sources are informational like usage: a malformed grounding is dropped
+const optionalGrounding = (value: unknown): Grounding | undefined => {
+  if (!isObject(value) || !Array.isArray(value.sources) || !Array.isArray(value.citations)) return undefined;
+  // Citations point into the source list by index, so one bad source drops them all
+  if (!value.sources.every(isRawSource)) return undefined;
+  const sources = value.sources.map(source => ({ uri: source.uri, title: optionalString(source.title) || source.uri }));
+  const citations = value.citations
+    .filter(isRawCitation)
+    .map(citation => ({
+      text: citation.text,
+      sources: citation.sources.filter((i): i is number => typeof i === 'number' && Number.isInteger(i) && i >= 0 && i < sources.length)
+    }));
+  const queries = Array.isArray(value.queries) ? value.queries.filter((q): q is string => typeof q === 'string') : undefined;
+  return sources.length > 0 ? { sources, citations, queries } : undefined;
+};
+
+// Same checks as a quiz coming from the model
+const optionalQuiz = (value: unknown): Quiz | undefined => {
+  if (!isObject(value)) return undefined;
+  try {
+    return parseQuiz(JSON.stringify(value));
+  } catch {
+    return undefined;
+  }
+};
+
+const parseQuizAttempts = (value: unknown): QuizAttempt[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const attempts = value.filter((attempt): attempt is QuizAttempt =>
+    isObject(attempt) &&
+    typeof attempt.id === 'string' &&
+    typeof attempt.messageId === 'string' &&
+    Array.isArray(attempt.answers) &&
+    attempt.answers.every((a: unknown) => a === null || Number.isInteger(a)) &&
+    typeof attempt.score === 'number' &&
+    typeof attempt.total === 'number' &&
+    typeof attempt.completedAt === 'number'
+  );
+  return attempts.length > 0 ? attempts : undefined;
+};
+
+const SAFETY_THRESHOLDS: SafetyThreshold[] = ['BLOCK_NONE', 'BLOCK_ONLY_HIGH', 'BLOCK_MEDIUM_AND_ABOVE', 'BLOCK_LOW_AND_ABOVE'];
+const optionalSafetyThreshold = (value: unknown) => (SAFETY_THRESHOLDS.includes(value as SafetyThreshold) ? value as SafetyThreshold : undefined);
+
+// --- Export ---
+
+// File objects and blob: URLs do not survive JSON, so attachments are exported as base64 only
+const serializeAttachment = (att: Attachment) => ({
+  type: att.type,
+  mimeType: att.mimeType || att.file?.type,
+  name: att.file?.name,
+  base64: att.base64
+});
+
+export const createBackup = (sessions: ChatSession[]): ChatBackup => ({
+  version: BACKUP_VERSION,
+  exportedAt: Date.now(),
+  sessions: sessions.map(session => ({
+    ...session,
+    messages: session.messages.map(msg => ({
+      ...msg,
+      isStreaming: undefined,
+      attachments: msg.attachments?.map(serializeAttachment) as unknown as Attachment[]
+    }))
+  }))
+});
+
+// --- Import ---
+
+const parseAttachment = (raw: unknown): Attachment => {
+  if (!isObject(raw)) throw new Error('attachment is not an object');
+  if (!isAttachmentType(raw.type)) throw new Error(`unknown attachment type "${raw.type}"`);
+  if (typeof raw.base64 !== 'string' || !raw.base64) throw new Error('attachment has no data');
+
+  // Older exports have no mimeType; fall back to the type's default, as replay does
+  const mimeType = optionalString(raw.mimeType) || getAttachmentMimeType({ type: raw.type });
+  let blob: Blob;
+  try {
+    blob = base64ToBlob(raw.base64, mimeType);
+  } catch {
+    throw new Error('attachment data is not valid base64');
+  }
+
+  const file = new File([blob], optionalString(raw.name) || 'attachment', { type: mimeType });
+  return {
+    file,
+    previewUrl: URL.createObjectURL(blob),
+    type: raw.type,
+    mimeType,
+    base64: raw.base64
+  };
+};
+
+const parseMessage = (raw: unknown): Message => {
+  if (!isObject(raw)) throw new Error('message is not an object');
+  if (typeof raw.id !== 'string' || !raw.id) throw new Error('message has no id');
+  const role = raw.role;
+  if (role !== 'user' && role !== 'model') throw new Error(`invalid role "${role}"`);
+  if (typeof raw.text !== 'string') throw new Error('message text is not a string');
+  if (raw.attachments !== undefined && !Array.isArray(raw.attachments)) throw new Error('attachments is not a list');
+
+  const attachments = Array.isArray(raw.attachments) ? raw.attachments.map(parseAttachment) : undefined;
+
+  const parentId = raw.parentId === null ? null : optionalString(raw.parentId);
+  if (raw.parentId !== undefined && parentId === undefined) throw new Error('parentId is not a message id');
+
+  return {
+    id: raw.id,
+    parentId,
+    role,
+    text: raw.text,
+    error: optionalBoolean(raw.error),
+    isHidden: optionalBoolean(raw.isHidden),
+    isStopped: optionalBoolean(raw.isStopped),
+    finishReason: optionalString(raw.finishReason),
+    attachments: attachments && attachments.length > 0 ? attachments : undefined,
+    modelId: optionalString(raw.modelId) as Message['modelId'],
+    fallbackFrom: optionalString(raw.fallbackFrom) as Message['fallbackFrom'],
+    fallbackReason: optionalString(raw.fallbackReason),
+    usage: optionalUsage(raw.usage),
+    thoughts: optionalString(raw.thoughts),
+    blockReason: optionalString(raw.blockReason),
+    useSearch: optionalBoolean(raw.useSearch),
+    grounding: optionalGrounding(raw.grounding),
+    quizRequest: optionalBoolean(raw.quizRequest),
+    quiz: optionalQuiz(raw.quiz)
+  };
+};
+
+// Invalid messages are dropped and reported; a session is rejected only if its own fields are invalid
+const parseSession = (raw: unknown, rejected: RejectedEntry[]): ChatSession => {
+  if (!isObject(raw)) throw new Error('session is not an object');
+  if (typeof raw.id !== 'string' || !raw.id) throw new Error('session has no id');
+  if (typeof raw.title !== 'string') throw new Error('session title is not a string');
+  if (typeof raw.updatedAt !== 'number' || !Number.isFinite(raw.updatedAt)) throw new Error('updatedAt is not a timestamp');
+  if (!Array.isArray(raw.messages)) throw new Error('messages is not a list');
+  if (raw.branchSelections !== undefined && !isObject(raw.branchSelections)) throw new Error('branchSelections is not an object');
+  // Checked values kept for the callback below, where the checks on `raw` no longer apply
+  const sessionId = raw.id;
+  const title = raw.title;
+
+  const messages: Message[] = [];
+  const seen = new Set<string>();
+  raw.messages.forEach((rawMsg: unknown, index: number) => {
+    try {
+      const msg = parseMessage(rawMsg);
+      if (seen.has(msg.id)) throw new Error('duplicate message id');
+      seen.add(msg.id);
+      messages.push(msg);
+    } catch (e: unknown) {
+      rejected.push({
+        sessionId,
+        messageId: isObject(rawMsg) ? optionalString(rawMsg.id) : undefined,
+        title,
+        reason: `Message #${index + 1}: ${getErrorMessage(e) || 'invalid message'}`
+      });
+    }
+  });
+
+  // Turns whose parent was rejected would be unreachable, so they are re-attached to the first turn's level
+  const ids = new Set(messages.map(m => m.id));
+  const linked = messages.map(m => (m.parentId && !ids.has(m.parentId) ? { ...m, parentId: null } : m));
+
+  const branchSelections: Record<string, string> = {};
+  Object.entries(raw.branchSelections || {}).forEach(([parent, child]) => {
+    if (typeof child === 'string' && ids.has(child)) branchSelections[parent] = child;
+  });
+
+  return {
+    id: raw.id,
+    title: raw.title,
+    messages: linked,
+    branchSelections,
+    updatedAt: raw.updatedAt,
+    lastModelId: optionalString(raw.lastModelId) as ChatSession['lastModelId'],
+    usage: optionalUsage(raw.usage),
+    contextSummaries: parseContextSummaries(raw.contextSummaries, messages),
+    thinkingBudget: optionalNumber(raw.thinkingBudget),
+    persona: optionalPersona(raw.persona),
+    temperature: optionalNumber(raw.temperature),
+    topP: optionalNumber(raw.topP),
+    maxOutputTokens: optionalNumber(raw.maxOutputTokens),
+    safetyThreshold: optionalSafetyThreshold(raw.safetyThreshold),
+    quizAttempts: parseQuizAttempts(raw.quizAttempts),
+    practiceTopic: optionalString(raw.practiceTopic)
+  };
+};
+
+// Summaries of messages that were not imported can never apply, so they are dropped
+const parseContextSummaries = (raw: unknown, messages: Message[]): Record<string, string> | undefined => {
+  if (!isObject(raw)) return undefined;
+  const ids = new Set(messages.map(m => m.id));
+  const entries = Object.entries(raw).filter((entry): entry is [string, string] => ids.has(entry[0]) && typeof entry[1] === 'string');
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+// Throws only when the file as a whole is unusable; per-entry problems end up in `rejected`
+export const parseBackup = (content: string): ImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  let version = 0;
+  let rawSessions: unknown;
+  if (Array.isArray(data)) {
+    rawSessions = data;
+  } else if (isObject(data) && typeof data.version === 'number') {
+    version = data.version;
+    rawSessions = data.sessions;
+  } else {
+    throw new Error('Unrecognized backup format');
+  }
+
+  if (version > BACKUP_VERSION) throw new Error(`Backup version ${version} is newer than this app supports (${BACKUP_VERSION})`);
+  if (!Array.isArray(rawSessions)) throw new Error('Backup has no sessions list');
+
+  const sessions: ChatSession[] = [];
+  const rejected: RejectedEntry[] = [];
+  const seen = new Set<string>();
+
+  rawSessions.forEach((raw, index) => {
+    try {
+      const session = parseSession(raw, rejected);
+      if (seen.has(session.id)) throw new Error('duplicate session id');
+      seen.add(session.id);
+      sessions.push(session);
+    } catch (e: unknown) {
+      rejected.push({
+        sessionId: isObject(raw) ? optionalString(raw.id) : undefined,
+        title: isObject(raw) ? optionalString(raw.title) : undefined,
+        reason: `Chat #${index + 1}: ${getErrorMessage(e) || 'invalid chat'}`
+      });
+    }
+  });
+
+  return { version, sessions, rejected };
+};
+
+// Merge dedupes by id and keeps whichever copy was updated most recently
+export const mergeSessions = (existing: ChatSession[], imported: ChatSession[], mode: ImportMode): ChatSession[] => {
+  if (mode === 'replace') return [...imported].sort((a, b) => b.updatedAt - a.updatedAt);
+
+  const byId = new Map(existing.map(s => [s.id, s] as [string, ChatSession]));
+  imported.forEach(session => {
+    const current = byId.get(session.id);
+    if (!current || session.updatedAt > current.updatedAt) {
+      byId.set(session.id, session);
+    }
+  });
+  return Array.from(byId.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+};
@@ -0,0 +1,121 @@
+import { ChatSession, Message } from "../types";
+
+// Conversations are trees: editing or regenerating a turn adds a sibling instead of
+// discarding what followed. All turns stay in `session.messages`; the visible
+// conversation is the path picked by `session.branchSelections`.
+
+const ROOT_KEY = '';
+
+const parentKey = (parentId: string | null | undefined) => parentId ?? ROOT_KEY;
+
+// Messages from before branching have no parentId: their parent is the previous message
+const resolveParentIds = (messages: Message[]): (string | null)[] =>
+  messages.map((msg, i) => (msg.parentId !== undefined ? msg.parentId : i > 0 ? messages[i - 1].id : null));
+
+const buildChildrenMap = (messages: Message[]): Map<string, Message[]> => {
+  const parents = resolveParentIds(messages);
+  const children = new Map<string, Message[]>();
+  messages.forEach((msg, i) => {
+    const key = parentKey(parents[i]);
+    const list = children.get(key) || [];
+    list.push(msg);
+    children.set(key, list);
+  });
+  return children;
+};
+
+export const getActivePath = (session: ChatSession): Message[] => {
+  const children = buildChildrenMap(session.messages);
+  const selections = session.branchSelections || {};
+  const path: Message[] = [];
+  const visited = new Set<string>();
+
+  let key = ROOT_KEY;
+  while (true) {
+    const options = children.get(key);
+    if (!options || options.length === 0) break;
+    const next = options.find(m => m.id === selections[key]) || options[options.length - 1];
+    if (visited.has(next.id)) break; // Guards against cycles in imported data
+    visited.add(next.id);
+    path.push(next);
+    key = next.id;
+  }
+  return path;
+};
+
+export interface BranchInfo {
+  index: number; // 0-based position among siblings
+  count: number;
+  siblingIds: string[];
+}
+
+// Sibling position of every message on the path that has alternatives
+export const getBranchInfo = (session: ChatSession): Map<string, BranchInfo> => {
+  const info = new Map<string, BranchInfo>();
+  buildChildrenMap(session.messages).forEach(siblings => {
+    if (siblings.length < 2) return;
+    const siblingIds = siblings.map(m => m.id);
+    siblings.forEach((msg, index) => info.set(msg.id, { index, count: siblings.length, siblingIds }));
+  });
+  return info;
+};
+
+// Adds new turns under `parentId` (chained one after another) and makes them the selected branch
+export const appendBranch = (session: ChatSession, parentId: string | null, newMessages: Message[]): ChatSession => {
+  const selections = { ...(session.branchSelections || {}) };
+  let parent = parentId;
+  const chained = newMessages.map(msg => {
+    const linked = { ...msg, parentId: parent };
+    selections[parentKey(parent)] = msg.id;
+    parent = msg.id;
+    return linked;
+  });
+  return { ...session, messages: [...session.messages, ...chained], branchSelections: selections };
+};
+
+// Selects every ancestor choice needed for `messageId` to be on the active path
+export const selectBranch = (session: ChatSession, messageId: string): ChatSession => {
+  const parents = resolveParentIds(session.messages);
+  const parentById = new Map(session.messages.map((m, i) => [m.id, parents[i]] as [string, string | null]));
+  if (!parentById.has(messageId)) return session;
+
+  const selections = { ...(session.branchSelections || {}) };
+  let current: string | null = messageId;
+  const visited = new Set<string>();
+  while (current !== null && !visited.has(current)) {
+    visited.add(current);
+    const parent: string | null = parentById.get(current) ?? null;
+    selections[parentKey(parent)] = current;
+    current = parent;
+  }
+  return { ...session, branchSelections: selections };
+};
+
+// Deletes a single turn; its replies move up to its parent so the rest of the branch survives
+export const removeMessage = (session: ChatSession, messageId: string): ChatSession => {
+  const parents = resolveParentIds(session.messages);
+  const index = session.messages.findIndex(m => m.id === messageId);
+  if (index === -1) return session;
+  const removedParent = parents[index];
+
+  const messages = session.messages
+    .map((msg, i) => {
+      if (parents[i] === messageId) return { ...msg, parentId: removedParent };
+      // Pin implicit parents before the list shifts
+      return msg.parentId === undefined ? { ...msg, parentId: parents[i] } : msg;
+    })
+    .filter(m => m.id !== messageId);
+
+  const selections = { ...(session.branchSelections || {}) };
+  const selectedChild = selections[messageId];
+  delete selections[messageId];
+  if (selections[parentKey(removedParent)] === messageId) {
+    if (selectedChild) {
+      selections[parentKey(removedParent)] = selectedChild;
+    } else {
+      delete selections[parentKey(removedParent)];
+    }
+  }
+
+  return { ...session, messages, branchSelections: selections };
+};
@@ -0,0 +1,105 @@
+import { ChatRequest, LLMProvider, ModelId, StreamChunk } from "../types";
+import { getContinuationPrompt } from "./gemini";
+
+// One engine per ChatSession.id, so several sessions can stream or sit idle without
+// touching each other. Conversations branch, so every request carries the branch the
+// caller passes in; the stored messages are the only source of truth for history.
+// An engine exists while its session runs a turn and owns the turn's in-flight request:
+// the AbortController shared by its retries, fallbacks and summary, and the model that
+// is answering. The provider does the talking.
+interface ChatEngine {
+  controller: AbortController;
+  modelId: ModelId; // Changes when the turn falls back to another model
+}
+
+const engines = new Map<string, ChatEngine>();
+
+// Busy sessions for React (useSyncExternalStore): the list is replaced, never mutated
+let busySessionIds: string[] = [];
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  busySessionIds = [...engines.keys()];
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToEngines = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getBusySessionIds = (): string[] => busySessionIds;
+
+export const isSessionBusy = (sessionId: string): boolean => engines.has(sessionId);
+
+// Starts a turn and returns the signal that cancels it, or null while the session is busy
+export const startTurn = (sessionId: string, modelId: ModelId): AbortSignal | null => {
+  if (engines.has(sessionId)) return null;
+  const engine: ChatEngine = { controller: new AbortController(), modelId };
+  engines.set(sessionId, engine);
+  notify();
+  return engine.controller.signal;
+};
+
+// Ends the turn `signal` belongs to; the session is busy until then, even once aborted
+export const endTurn = (sessionId: string, signal: AbortSignal): void => {
+  if (engines.get(sessionId)?.controller.signal !== signal) return;
+  engines.delete(sessionId);
+  notify();
+};
+
+// Used for stopping a reply, deleting or replacing a chat, and signing out
+export const abortTurn = (sessionId: string): void => {
+  engines.get(sessionId)?.controller.abort();
+};
+
+export const abortAllTurns = (): void => {
+  engines.forEach(engine => engine.controller.abort());
+};
+
+// A cancelled stream simply ends; callers check `signal.aborted` to tell it apart.
+async function* trackStream(engine: ChatEngine, stream: AsyncGenerator<StreamChunk>) {
+  try {
+    yield* stream;
+  } catch (error) {
+    if (engine.controller.signal.aborted) return;
+    console.error(`Error sending message to ${engine.modelId}:`, error);
+    throw error;
+  }
+}
+
+// Streams one request of the session's current turn, cancelled with the turn
+const runStream = (sessionId: string, provider: LLMProvider, request: ChatRequest): AsyncGenerator<StreamChunk> => {
+  if (provider.requiresApiKey && !request.apiKey) throw new Error("API Key is required");
+
+  const engine = engines.get(sessionId);
+  if (!engine) throw new Error("This chat has no reply in progress");
+
+  engine.modelId = request.modelId;
+  return trackStream(engine, provider.streamMessage({ ...request, signal: engine.controller.signal }));
+};
+
+// `request.history` is the selected branch up to (not including) the message.
+// Only runs inside a turn (startTurn), whose signal cancels it.
+export const sendMessageStream = async (
+  sessionId: string,
+  provider: LLMProvider,
+  request: Omit<ChatRequest, 'signal'>
+): Promise<AsyncGenerator<StreamChunk>> => {
+  return runStream(sessionId, provider, request);
+};
+
+// Resumes the last (truncated) model message in `history`. The extra "continue" turn
+// only lives in this request; the stored message just grows.
+export const continueMessageStream = async (
+  sessionId: string,
+  provider: LLMProvider,
+  request: Omit<ChatRequest, 'message' | 'attachments' | 'signal'>
+): Promise<AsyncGenerator<StreamChunk>> => {
+  const partial = request.history[request.history.length - 1];
+  if (!partial || partial.role !== 'model') throw new Error("Nothing to continue");
+
+  return runStream(sessionId, provider, { ...request, message: getContinuationPrompt(partial.text) });
+};
@@ -0,0 +1,108 @@
+import { Message, ModelId, ModelInfo } from "../types";
+import { estimateContextTokens, estimateMessageTokens } from "./gemini";
+
+// Keeps long chats inside the model's context window. Past WARN_RATIO of the
+// window, attachments of older turns are left out of the request first; if that is
+// not enough, the oldest turns are replaced by a model-written summary. Summaries are
+// stored on the session (ChatSession.contextSummaries) keyed by the last message they
+// cover, so every branch that shares that prefix reuses them. Stored messages are
+// never changed: this only shapes what is sent.
+
+export const CONTEXT_WARN_RATIO = 0.8;
+const CONTEXT_TARGET_RATIO = 0.5;
+const DEFAULT_CONTEXT_WINDOW = 128000;
+const RECENT_ATTACHMENT_TURNS = 2;
+const MIN_RECENT_MESSAGES = 4;
+
+const SUMMARY_ID_PREFIX = 'context-summary-';
+
+export const getContextWindow = (model?: ModelInfo): number => model?.capabilities?.contextWindow || DEFAULT_CONTEXT_WINDOW;
+
+export const isSummaryMessage = (message: Message): boolean => message.id.startsWith(SUMMARY_ID_PREFIX);
+
+// The summary stands in for the turns it covers as one user/model exchange
+const buildSummaryTurns = (coveredMessageId: string, summary: string): Message[] => [
+  {
+    id: `${SUMMARY_ID_PREFIX}${coveredMessageId}`,
+    role: 'user',
+    text: `[Summary of the earlier part of this conversation]\n\n${summary}`
+  },
+  {
+    id: `${SUMMARY_ID_PREFIX}${coveredMessageId}-ack`,
+    role: 'model',
+    text: 'Understood. I will continue the conversation with this context.'
+  }
+];
+
+// Replaces the longest summarized prefix of `history` with its summary
+export const applyContextSummary = (history: Message[], summaries?: Record<string, string>): Message[] => {
+  if (!summaries) return history;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const summary = summaries[history[i].id];
+    if (summary) return [...buildSummaryTurns(history[i].id, summary), ...history.slice(i + 1)];
+  }
+  return history;
+};
+
+// Only the attachments of the most recent user turns are sent; older ones are named instead
+export const dropOldAttachments = (history: Message[]): Message[] => {
+  let keptTurns = 0;
+  return [...history].reverse().map(msg => {
+    if (msg.role !== 'user' || !msg.attachments?.length) return msg;
+    if (keptTurns < RECENT_ATTACHMENT_TURNS) {
+      keptTurns++;
+      return msg;
+    }
+    const names = msg.attachments.map(att => att.file?.name || att.type).join(', ');
+    return { ...msg, attachments: [], text: `${msg.text}\n\n[Attachment left out to save context: ${names}]`.trim() };
+  }).reverse();
+};
+
+export const fitsContext = (history: Message[], extraTokens: number, modelId: ModelId, contextWindow: number, ratio = CONTEXT_WARN_RATIO): boolean => {
+  return estimateContextTokens(history, modelId) + extraTokens <= contextWindow * ratio;
+};
+
+export interface CompressionPlan {
+  toSummarize: Message[]; // Oldest turns, ending on a model reply
+  rest: Message[]; // Recent turns sent as they are
+}
+
+// Splits off the oldest turns so that the rest fits CONTEXT_TARGET_RATIO of the window.
+// Null when there is nothing worth summarizing.
+export const planCompression = (history: Message[], extraTokens: number, modelId: ModelId, contextWindow: number): CompressionPlan | null => {
+  const budget = contextWindow * CONTEXT_TARGET_RATIO - extraTokens - estimateContextTokens([], modelId);
+  const lastSplit = history.length - MIN_RECENT_MESSAGES;
+
+  let restTokens = history.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0);
+  let split: number | null = null;
+  for (let i = 1; i <= lastSplit; i++) {
+    const last = history[i - 1];
+    restTokens -= estimateMessageTokens(last);
+    // Split after a real model reply, so a turn is never cut in half
+    if (last.role !== 'model' || isSummaryMessage(last)) continue;
+    split = i;
+    if (restTokens <= budget) break;
+  }
+
+  if (split === null) return null;
+  return { toSummarize: history.slice(0, split), rest: history.slice(split) };
+};
+
+export const getSummaryPrompt = (turns: Message[]): string => {
+  const transcript = turns
+    .filter(msg => !msg.error && msg.text.trim())
+    .map(msg => `${msg.role === 'user' ? 'STUDENT' : 'TUTOR'}: ${msg.text.replace(/```html[\s\S]*?(?:```|$)/g, '[interactive HTML widget]')}`)
+    .join('\n\n');
+
+  return `Summarize the following tutoring conversation so it can replace the original turns as context for the rest of the chat.
+Keep: the topics and questions covered, key definitions, formulas (in $$ LaTeX $$), results and numbers, what the student found difficult, and any preferences or instructions they gave.
+Leave out HTML/JS code of simulations and quizzes (just say which ones were made). Write in the language the student used. Be concise but complete; do not add an introduction.
+
+CONVERSATION:
+${transcript}`;
+};
+
+export const withSummary = (plan: CompressionPlan, summary: string): Message[] => {
+  const lastCovered = plan.toSummarize[plan.toSummarize.length - 1];
+  return [...buildSummaryTurns(lastCovered.id, summary), ...plan.rest];
+};
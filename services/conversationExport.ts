@@ -0,0 +1,203 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { Attachment, ChatSession, Message } from '../types';
+import { getAttachmentMimeType } from './gemini';
+import { getActivePath } from './branches';
+import { WIDGET_SANDBOX, buildWidgetDocument } from './htmlSandbox';
+import { getTextDirection, splitHtmlBlocks } from '../utils/messageContent';
+
+// Turns a single ChatSession into a shareable document: Markdown (math kept as $$ source),
+// a self-contained HTML page with pre-rendered KaTeX, or the same page opened for printing.
+
+const KATEX_CSS = 'https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/katex.min.css';
+const FONTS_CSS = 'https://fonts.googleapis.com/css2?family=Amiri:ital,wght@0,400;0,700;1,400&family=Cairo:wght@300..1000&display=swap';
+
+// Only the selected branch is exported. Hidden messages are quick-action prompts and
+// errors carry no answer, so neither is included.
+const exportableMessages = (session: ChatSession): Message[] =>
+  getActivePath(session).filter(m => !m.isHidden && !m.error && (m.text.trim() || m.attachments?.length));
+
+const roleLabel = (msg: Message) => (msg.role === 'user' ? 'أنت (You)' : 'أيات بينات (Ayat Bayyinat)');
+
+const attachmentDataUrl = (att: Attachment) =>
+  att.base64 ? `data:${getAttachmentMimeType(att)};base64,${att.base64}` : '';
+
+const attachmentName = (att: Attachment, index: number) => att.file?.name || `attachment-${index + 1}`;
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+export const getExportFileName = (session: ChatSession, extension: string) => {
+  const base = session.title.replace(/[\\/:*?"<>|\n\r]+/g, '_').trim().slice(0, 60) || 'chat';
+  return `AyatBayyinat_${base}.${extension}`;
+};
+
+// --- Markdown ---
+
+export const conversationToMarkdown = (session: ChatSession): string => {
+  const lines: string[] = [
+    `# ${session.title}`,
+    '',
+    `_Ayat Bayyinat • ${new Date(session.updatedAt).toLocaleString()}_`,
+    ''
+  ];
+
+  exportableMessages(session).forEach(msg => {
+    lines.push('---', '', `### ${roleLabel(msg)}`, '');
+
+    msg.attachments?.forEach((att, i) => {
+      const name = attachmentName(att, i);
+      const url = attachmentDataUrl(att);
+      lines.push(att.type === 'image' && url ? `![${name}](${url})` : `📎 ${name}`, '');
+    });
+
+    // Blank lines around the text keep it parsed as Markdown inside the direction wrapper
+    lines.push(`<div dir="${getTextDirection(msg.text)}">`, '', msg.text.trim(), '', '</div>', '');
+  });
+
+  return lines.join('\n');
+};
+
+// --- HTML ---
+
+type RenderToStaticMarkup = (element: React.ReactElement) => string;
+
+// The React server renderer is only needed for exports, so it stays out of the main bundle
+const loadRenderer = async (): Promise<RenderToStaticMarkup> => (await import('react-dom/server')).renderToStaticMarkup;
+
+const renderMarkdown = (render: RenderToStaticMarkup, text: string) => render(
+  React.createElement(ReactMarkdown, {
+    remarkPlugins: [remarkGfm, remarkMath],
+    rehypePlugins: [rehypeKatex],
+    children: text
+  })
+);
+
+// Exported widgets run offline: the file has neither the security scan nor the viewer's
+// per-widget network opt-in
+const renderSimulation = (code: string) => `
+      <figure class="simulation">
+        <iframe sandbox="${WIDGET_SANDBOX}" srcdoc="${escapeHtml(buildWidgetDocument(code, false))}" title="Interactive simulation"></iframe>
+        <figcaption class="print-only">مثال تفاعلي — افتح ملف HTML لتشغيله (Interactive simulation: open the HTML file to run it)</figcaption>
+      </figure>`;
+
+const renderMessage = (render: RenderToStaticMarkup, msg: Message) => {
+  const attachments = (msg.attachments || []).map((att, i) => {
+    const url = attachmentDataUrl(att);
+    return att.type === 'image' && url
+      ? `<img class="attachment" src="${url}" alt="${escapeHtml(attachmentName(att, i))}">`
+      : `<div class="attachment file">📎 ${escapeHtml(attachmentName(att, i))}</div>`;
+  }).join('');
+
+  const body = splitHtmlBlocks(msg.text)
+    .map((part, index) => (index % 2 === 1 ? renderSimulation(part) : renderMarkdown(render, part)))
+    .join('');
+
+  return `
+    <section class="message ${msg.role}" dir="${getTextDirection(msg.text)}">
+      <header>${roleLabel(msg)}</header>
+      ${attachments ? `<div class="attachments">${attachments}</div>` : ''}
+      <div class="content">${body}</div>
+    </section>`;
+};
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; background: #0d1117; color: #e5e7eb; font-family: 'Cairo', sans-serif; line-height: 1.7; }
+  main { max-width: 860px; margin: 0 auto; padding: 32px 16px; }
+  h1.title { font-size: 1.8rem; color: #34d399; margin: 0 0 4px; }
+  .meta { color: #6b7280; font-size: 0.85rem; margin-bottom: 32px; }
+  .message { border: 1px solid #1f2937; border-radius: 18px; padding: 16px 20px; margin-bottom: 20px; break-inside: avoid-page; }
+  .message.user { background: #1f2937; }
+  .message.model { background: #0d1117; }
+  .message header { font-weight: bold; font-size: 0.8rem; color: #9ca3af; margin-bottom: 8px; }
+  .message.model header { color: #34d399; }
+  .content strong { color: #34d399; }
+  .content blockquote { font-family: 'Amiri', serif; color: #fbbf24; border-inline-start: 3px solid #f59e0b80; margin: 16px 0; padding: 4px 16px; }
+  .content pre { background: #111827; padding: 12px; border-radius: 8px; overflow-x: auto; direction: ltr; }
+  .content table { border-collapse: collapse; }
+  .content th, .content td { border: 1px solid #374151; padding: 4px 8px; }
+  .katex { color: #fbbf24; direction: ltr; }
+  .attachments { display: flex; flex-wrap: wrap; gap: 8px; margin-bottom: 12px; }
+  .attachment { max-width: 240px; max-height: 240px; border-radius: 10px; border: 1px solid #374151; }
+  .attachment.file { padding: 8px 12px; font-size: 0.85rem; }
+  .simulation { margin: 16px 0; }
+  .simulation iframe { width: 100%; height: 480px; border: 1px solid #374151; border-radius: 12px; background: #0d1117; }
+  .print-only { display: none; }
+
+  @media print {
+    @page { margin: 16mm; }
+    body { background: #fff; color: #111; }
+    main { max-width: none; padding: 0; }
+    h1.title, .message.model header, .content strong { color: #047857; }
+    .message, .message.user, .message.model { background: #fff; border-color: #d1d5db; }
+    .content pre { background: #f3f4f6; }
+    .katex { color: #111; }
+    .simulation iframe { display: none; }
+    .print-only { display: block; font-style: italic; color: #6b7280; border: 1px dashed #9ca3af; border-radius: 8px; padding: 12px; }
+  }`;
+
+// Starts the print dialog once web fonts and KaTeX styles have loaded
+const AUTO_PRINT_SCRIPT = `<script>window.addEventListener('load', function () { setTimeout(function () { window.print(); }, 300); });</script>`;
+
+export const conversationToHtml = async (session: ChatSession, autoPrint = false): Promise<string> => {
+  const render = await loadRenderer();
+  return `<!DOCTYPE html>
+<html lang="ar">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(session.title)}</title>
+  <link rel="stylesheet" href="${FONTS_CSS}">
+  <link rel="stylesheet" href="${KATEX_CSS}">
+  <style>${STYLES}</style>
+</head>
+<body>
+  <main>
+    <h1 class="title" dir="${getTextDirection(session.title)}">${escapeHtml(session.title)}</h1>
+    <div class="meta">Ayat Bayyinat • ${new Date(session.updatedAt).toLocaleString()}</div>
+    ${exportableMessages(session).map(msg => renderMessage(render, msg)).join('')}
+  </main>
+  ${autoPrint ? AUTO_PRINT_SCRIPT : ''}
+</body>
+</html>`;
+};
+
+// --- Delivery ---
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Opens the HTML export in a new tab and starts the browser's print dialog (Save as PDF).
+// The tab is opened before rendering, while the click still allows pop-ups.
+export const openPrintView = async (session: ChatSession) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    alert("Please allow pop-ups to open the print view");
+    return;
+  }
+  try {
+    const html = await conversationToHtml(session, true);
+    printWindow.document.open();
+    printWindow.document.write(html);
+    printWindow.document.close();
+  } catch (e) {
+    printWindow.close();
+    throw e;
+  }
+};
@@ -0,0 +1,106 @@
+import { ModelId } from "../types";
+
+// Automatic retries and model fallback for a turn. A busy or rate-limited model
+// (429/503) is retried with exponential backoff, then the same turn is re-sent to
+// the next model of the user's fallback chain. Other errors fail the turn at once.
+
+export const DEFAULT_FALLBACK_CHAIN: ModelId[] = ['gemini-2.5-flash', 'gemini-flash-lite-latest'];
+
+const RETRIES_PER_MODEL = 2;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 8000;
+
+const RETRYABLE_STATUSES = [429, 503];
+
+// Anything can be thrown, not only Errors; '' when there is no message
+export const getErrorMessage = (error: unknown): string =>
+  typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string' ? error.message : '';
+
+// Status code of a failed request: the Gemini SDK sets `status`, other providers put it in the message
+export const getErrorStatus = (error: unknown): number | undefined => {
+  if (typeof error === 'object' && error !== null && 'status' in error && typeof error.status === 'number') return error.status;
+  const match = getErrorMessage(error).match(/\b(4\d\d|5\d\d)\b/);
+  return match ? Number(match[1]) : undefined;
+};
+
+export const isRetryableError = (error: unknown): boolean => {
+  const status = getErrorStatus(error);
+  if (status !== undefined) return RETRYABLE_STATUSES.includes(status);
+  return /quota|exhausted|overloaded|unavailable|rate limit/i.test(getErrorMessage(error));
+};
+
+// Short label for notices, e.g. "429" or "Resource has been exhausted"
+export const describeError = (error: unknown): string => {
+  const status = getErrorStatus(error);
+  if (status !== undefined) return String(status);
+  return (getErrorMessage(error) || 'Unknown error').slice(0, 80);
+};
+
+// 1s, 2s, 4s... capped
+export const getBackoffDelay = (attempt: number): number => Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+
+// The selected model first, then the chain without duplicates
+export const buildModelChain = (selectedModel: ModelId, fallbackChain: ModelId[] = DEFAULT_FALLBACK_CHAIN): ModelId[] => {
+  return [selectedModel, ...fallbackChain].filter((id, i, all) => all.indexOf(id) === i);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(done, ms);
+  function done() {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', done);
+    resolve();
+  }
+  signal?.addEventListener('abort', done, { once: true });
+});
+
+export interface RetryStatus {
+  modelId: ModelId; // Model the next attempt goes to
+  delayMs: number;
+  reason: string;
+  isFallback: boolean; // The next attempt uses another model than the failed one
+}
+
+export interface FallbackResult {
+  modelId: ModelId; // Model that answered
+  reason?: string; // Why the first model of the chain did not answer
+}
+
+// Runs `attempt` on each model of `chain` until one succeeds. `attempt` must start the
+// turn from scratch every time. Resolves early (with the model being tried) once
+// `signal` is aborted; rethrows the last error when the whole chain failed.
+export const runWithFallback = async (
+  chain: ModelId[],
+  attempt: (modelId: ModelId) => Promise<void>,
+  onRetry: (status: RetryStatus) => void,
+  signal?: AbortSignal
+): Promise<FallbackResult> => {
+  let firstReason: string | undefined;
+
+  for (let i = 0; i < chain.length; i++) {
+    const modelId = chain[i];
+    for (let retry = 0; ; retry++) {
+      try {
+        await attempt(modelId);
+        return { modelId, reason: i > 0 ? firstReason : undefined };
+      } catch (error) {
+        if (signal?.aborted) return { modelId, reason: i > 0 ? firstReason : undefined };
+        if (!isRetryableError(error)) throw error;
+
+        const reason = describeError(error);
+        firstReason = firstReason ?? reason;
+
+        const nextModel = retry < RETRIES_PER_MODEL ? modelId : chain[i + 1];
+        if (!nextModel) throw error;
+
+        const delayMs = getBackoffDelay(retry < RETRIES_PER_MODEL ? retry : 0);
+        onRetry({ modelId: nextModel, delayMs, reason, isFallback: nextModel !== modelId });
+        await sleep(delayMs, signal);
+        if (signal?.aborted) return { modelId, reason: i > 0 ? firstReason : undefined };
+        if (nextModel !== modelId) break;
+      }
+    }
+  }
+
+  throw new Error("No model left in the fallback chain");
+};
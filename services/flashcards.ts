@@ -0,0 +1,140 @@
+import { Flashcard, FlashcardKind } from "../types";
+
+// Flashcards made from a chat by the model (JSON mode, FLASHCARD_SCHEMA) and reviewed
+// with the SM-2 algorithm: each review grades recall from 0 to 5, which sets the next
+// interval and adjusts the card's ease factor. Cards are due by calendar day.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const PASSING_GRADE = 3;
+
+// Grades offered after a review, as in most SM-2 apps
+export const REVIEW_GRADES: { grade: number; label: string }[] = [
+  { grade: 1, label: 'Again' },
+  { grade: 3, label: 'Hard' },
+  { grade: 4, label: 'Good' },
+  { grade: 5, label: 'Easy' }
+];
+
+export const FLASHCARD_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    cards: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: ['term', 'formula'] },
+          front: { type: 'string', description: 'The term, or what the formula computes (e.g. "Roots of a quadratic equation")' },
+          back: { type: 'string', description: 'A short definition, or the formula in $$...$$ LaTeX with its symbols explained' }
+        },
+        required: ['kind', 'front', 'back']
+      }
+    }
+  },
+  required: ['cards']
+};
+
+export const getFlashcardPrompt = (): string => `Make study flashcards from our conversation so far.
+- "term" cards: a key term or concept on the front, a short, precise definition on the back.
+- "formula" cards: what the formula gives on the front, the formula in $$...$$ LaTeX on the back with each symbol explained in one line.
+- Only include what was actually covered; skip greetings, HTML widgets and trivia. At most 20 cards.
+- Write in the language the student is using.
+- Reply ONLY with the JSON object.`;
+
+export const startOfDay = (time: number = Date.now()): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const addDays = (day: number, days: number): number => {
+  const date = new Date(day);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+type RawCard = { kind?: unknown; front: string; back: string };
+
+const isRawCard = (value: unknown): value is RawCard =>
+  isRecord(value) && isNonEmptyString(value.front) && isNonEmptyString(value.back);
+
+// Throws when the reply is not JSON; malformed cards are skipped
+export const parseFlashcards = (text: string, deck: string, sessionId?: string): Flashcard[] => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("The reply is not valid JSON");
+  }
+  const cards: unknown[] = isRecord(raw) && Array.isArray(raw.cards) ? raw.cards : [];
+
+  const now = Date.now();
+  return cards
+    .filter(isRawCard)
+    .map((card, i): Flashcard => ({
+      id: `${now.toString(36)}-${i}`,
+      deck,
+      kind: (card.kind === 'formula' ? 'formula' : 'term') as FlashcardKind,
+      front: card.front.trim(),
+      back: card.back.trim(),
+      sessionId,
+      createdAt: now,
+      repetitions: 0,
+      interval: 0,
+      easeFactor: INITIAL_EASE,
+      dueAt: startOfDay(now)
+    }));
+};
+
+// Adds new cards to the collection, skipping ones whose front is already in the same deck
+export const addCards = (existing: Flashcard[], cards: Flashcard[]): { cards: Flashcard[]; added: number } => {
+  const seen = new Set(existing.map(c => `${c.deck}\n${normalize(c.front)}`));
+  const fresh = cards.filter(card => {
+    const key = `${card.deck}\n${normalize(card.front)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { cards: [...existing, ...fresh], added: fresh.length };
+};
+
+// SM-2 step for a recall grade from 0 (blackout) to 5 (perfect)
+export const reviewCard = (card: Flashcard, grade: number, now: number = Date.now()): Flashcard => {
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+
+  let repetitions: number;
+  let interval: number;
+  if (grade < PASSING_GRADE) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = card.repetitions + 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * card.easeFactor);
+  }
+
+  return { ...card, repetitions, interval, easeFactor, dueAt: addDays(startOfDay(now), interval), lastReviewedAt: now };
+};
+
+export const isDue = (card: Flashcard, now: number = Date.now()): boolean => card.dueAt <= startOfDay(now);
+
+export const getDueCards = (cards: Flashcard[], deck?: string, now: number = Date.now()): Flashcard[] =>
+  cards.filter(card => isDue(card, now) && (!deck || card.deck === deck)).sort((a, b) => a.dueAt - b.dueAt);
+
+export const getDecks = (cards: Flashcard[]): string[] => [...new Set(cards.map(c => c.deck))].sort((a, b) => a.localeCompare(b));
+
+// "today", "tomorrow", "in 6 days"
+export const formatDue = (card: Flashcard, now: number = Date.now()): string => {
+  const days = Math.round((card.dueAt - startOfDay(now)) / DAY_MS);
+  if (days <= 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  return `in ${days} days`;
+};
@@ -1,49 +1,68 @@
-import { GoogleGenAI, Chat, GenerateContentResponse, Part } from "@google/genai";
-import { Attachment, GeminiModelId } from "../types";
+import { GoogleGenAI, Chat, Content, GenerateContentConfig, GenerateContentResponse, GroundingMetadata, HarmBlockThreshold, HarmCategory, Part, PartListUnion, SafetySetting } from "@google/genai";
+import { Attachment, ChatRequest, GenerationSettings, Grounding, LLMProvider, Message, ModelId, SafetyThreshold, StreamChunk } from "../types";
+import { discoverGeminiModels, supportsThinking } from "./modelCatalog";
+import { WIDGET_BRIDGE_PROMPT } from "./widgetBridge";
+import { KATEX_CDN } from "./htmlSandbox";
 
 // We no longer rely solely on process.env.API_KEY. 
 // Keys are passed dynamically from the UI.
 
-// Singleton chat session to maintain history across renders
-let chatSession: Chat | null = null;
-let currentModelId: GeminiModelId = 'gemini-3-pro-preview';
-let currentApiKey: string = '';
+// Each session's in-flight request is owned by services/chatEngine.ts, which talks
+// to this module through `geminiProvider` (see services/provider.ts).
 
-export const AVAILABLE_MODELS: { id: GeminiModelId; name: string; description: string }[] = [
-  { 
-    id: 'gemini-3-pro-preview', 
-    name: 'Gemini 3 Pro', 
-    description: 'Smartest, best for complex math & reasoning.' 
-  },
-  {
-    id: 'gemini-2.0-pro-exp-02-05',
-    name: 'Gemini 2.5 Pro',
-    description: 'Advanced reasoning, balanced speed/quality.'
-  },
-  { 
-    id: 'gemini-2.5-flash', 
-    name: 'Gemini 2.5 Flash', 
-    description: 'Fast, higher rate limits, great for daily tasks.' 
-  },
-  { 
-    id: 'gemini-flash-lite-latest', 
-    name: 'Gemini Flash Lite', 
-    description: 'Fastest, "Unlimited" feel, lightweight.' 
+// Attachments restored from storage lose their File object, so fall back to the stored mime type
+export const getAttachmentMimeType = (att: Pick<Attachment, 'type' | 'mimeType'> & Partial<Pick<Attachment, 'file'>>): string => {
+  if (att.file?.type) return att.file.type;
+  if (att.mimeType) return att.mimeType;
+  switch (att.type) {
+    case 'image': return 'image/png';
+    case 'audio': return 'audio/mpeg';
+    case 'pdf': return 'application/pdf';
+    default: return 'application/octet-stream';
   }
-];
+};
+
+export const buildParts = (message: string, attachments: Attachment[] = []): Part[] => {
+  const attachmentParts: Part[] = attachments
+    .filter(att => att.base64)
+    .map(att => ({
+      inlineData: {
+        mimeType: getAttachmentMimeType(att),
+        data: att.base64 || ''
+      }
+    }));
+  return message ? [...attachmentParts, { text: message }] : attachmentParts;
+};
+
+// Rebuild the Gemini history from stored messages so resumed chats keep their context.
+// Failed (error) turns and empty placeholders are skipped; consecutive turns of the
+// same role are merged because the API expects user/model to alternate.
+export const buildHistory = (messages: Message[]): Content[] => {
+  const history: Content[] = [];
 
-export const getChatSession = (modelId: GeminiModelId = 'gemini-3-pro-preview', apiKey: string): Chat => {
-  // If the model changed or session doesn't exist, create a new one
-  if (!chatSession || currentModelId !== modelId || currentApiKey !== apiKey) {
-    currentModelId = modelId;
-    currentApiKey = apiKey;
-    
-    const ai = new GoogleGenAI({ apiKey: apiKey });
-    
-    chatSession = ai.chats.create({
-      model: modelId,
-      config: {
-        systemInstruction: `You are 'Ayat Bayyinat' (أيات بينات), a highly advanced AI assistant powered by ${modelId}.
+  for (const msg of messages) {
+    if (msg.error || msg.isStreaming) continue;
+
+    const parts = buildParts(msg.text, msg.role === 'user' ? msg.attachments : []);
+    if (parts.length === 0) continue;
+
+    const last = history[history.length - 1];
+    if (last && last.role === msg.role) {
+      last.parts = [...(last.parts || []), ...parts];
+    } else {
+      history.push({ role: msg.role, parts });
+    }
+  }
+
+  // The API rejects a history that ends on a dangling user turn
+  if (history.length > 0 && history[history.length - 1].role === 'user') {
+    history.pop();
+  }
+
+  return history;
+};
+
+export const getSystemInstruction = (modelId: ModelId, instructions?: string): string => `You are 'Ayat Bayyinat' (أيات بينات), a highly advanced AI assistant powered by ${modelId}.
 
 CRITICAL RULE: DO NOT GENERATE HTML SIMULATIONS AUTOMATICALLY.
 - You must ONLY generate an HTML simulation or Quiz if the user explicitly asks for it or clicks a specific button (like "Simulation" or "Quiz").
@@ -57,8 +76,9 @@ VISUAL RULES (When requested):
 MODE 1: INTERACTIVE QUIZ (Triggered by: "Quiz", "(QZ)", "اختبار")
 - OUTPUT: A standalone HTML/JS Widget.
 - CONTENT: 5-10 *NEW* Multiple Choice Questions.
-- FORMAT: Include <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/katex.min.css">.
+- FORMAT: Include <link rel="stylesheet" href="${KATEX_CDN}katex.min.css">.
 - FEEDBACK: Immediate Right/Wrong feedback with explanation.
+- REPORTING: Report each answer and the final score through the widget bridge below.
 
 MODE 2: VISUAL SIMULATION (Triggered by: "Simulation", "visualize", "show me", "محاكاة")
 - OUTPUT: An interactive HTML5 Canvas or SVG simulation.
@@ -66,12 +86,16 @@ MODE 2: VISUAL SIMULATION (Triggered by: "Simulation", "visualize", "show me", "
 - BRANDING: Include "Ayat Bayyinat" and Book Icon in header.
 - MATH: If the simulation shows formulas, use KaTeX/MathJax inside the HTML.
 
+SANDBOX: Widgets run isolated and offline. Inline all code, styles and images (data: URIs); do not use fetch, external images or localStorage. Only KaTeX from ${KATEX_CDN} and Google Fonts can load, and only if the student allows it.
+
 HTML TEMPLATE REQUIREMENT:
 When generating HTML, you MUST include this CSS in the <style> block:
 .katex { color: #fbbf24 !important; text-shadow: 0 0 10px rgba(251, 191, 36, 0.3); direction: ltr; font-weight: bold; }
 body { background-color: #0d1117; color: white; font-family: 'Cairo', sans-serif; }
 .btn-gold { background: linear-gradient(to right, #fbbf24, #d97706); color: black; border: none; font-weight: bold; }
 
+${WIDGET_BRIDGE_PROMPT}
+
 FILE ANALYSIS & OCR:
 - Perform high-accuracy OCR on images.
 - Solve math problems found in images using MathJax.
@@ -80,43 +104,209 @@ GENERAL RULES:
 1. **Formatting**: Use arrow symbols (→), Cairo font for headers.
 2. **Emphasis**: Use **bold** for key terms.
 3. **Language**: Fluent Arabic and English. Auto-detect direction.
+4. **Answer Verdicts**: When the student answers a multiple-choice question (e.g. "B) ..."), start your reply with ✅ if the answer is correct or ❌ if it is wrong, then explain.
+${instructions?.trim() ? `
+PERSONA FOR THIS CHAT (set by the teacher; where it conflicts with the general rules above, follow the persona):
+${instructions.trim()}
+` : ''}
+Start now.`;
 
-Start now.`,
-      },
-    });
+// --- Context size estimates ---
+// Counting tokens exactly needs a request per message, so the history size is
+// estimated locally: ~4 characters per text token, and the fixed or size-based
+// rates Gemini uses for media (258 tokens per image or PDF page, 32 per second of audio).
+
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 258;
+const PDF_BYTES_PER_PAGE = 50000;
+const AUDIO_BYTES_PER_SECOND = 16000; // ~128 kbps
+
+export const estimateTextTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const estimateAttachmentTokens = (att: Attachment): number => {
+  const bytes = att.base64 ? Math.floor(att.base64.length * 3 / 4) : (att.file?.size || 0);
+  switch (att.type) {
+    case 'image': return IMAGE_TOKENS;
+    case 'pdf': return Math.max(1, Math.ceil(bytes / PDF_BYTES_PER_PAGE)) * IMAGE_TOKENS;
+    case 'audio': return Math.ceil(bytes / AUDIO_BYTES_PER_SECOND) * 32;
+    default: return Math.ceil(bytes / CHARS_PER_TOKEN);
   }
-  return chatSession;
 };
 
-export const resetChatSession = (): void => {
-  chatSession = null;
+export const estimateMessageTokens = (message: Message): number => {
+  const attachments = message.role === 'user' ? message.attachments || [] : [];
+  return estimateTextTokens(message.text) + attachments.reduce((sum, att) => sum + estimateAttachmentTokens(att), 0);
 };
 
-export const sendMessageStream = async (message: string, attachments: Attachment[] = [], modelId: GeminiModelId = 'gemini-3-pro-preview', apiKey: string) => {
-  if (!apiKey) throw new Error("API Key is required");
-  
-  const chat = getChatSession(modelId, apiKey);
-  try {
-    // Construct parts for multimodal input
-    let parts: (string | Part)[] = [{ text: message }];
+// What a request with this history would send, system instruction included.
+// Skips the same turns as buildHistory.
+export const estimateContextTokens = (messages: Message[], modelId: ModelId, instructions?: string): number => {
+  return messages
+    .filter(msg => !msg.error && !msg.isStreaming)
+    .reduce((sum, msg) => sum + estimateMessageTokens(msg), estimateTextTokens(getSystemInstruction(modelId, instructions)));
+};
 
-    if (attachments.length > 0) {
-      const attachmentParts = attachments.map(att => ({
-        inlineData: {
-          mimeType: att.file.type,
-          data: att.base64 || ''
-        }
-      }));
-      parts = [...attachmentParts, { text: message }];
+// True when the text ends inside an unterminated ```html block (e.g. a cut-off simulation)
+export const hasOpenHtmlBlock = (text: string): boolean => {
+  const lastOpen = text.lastIndexOf('```html');
+  if (lastOpen === -1) return false;
+  return text.indexOf('```', lastOpen + '```html'.length) === -1;
+};
+
+export const getContinuationPrompt = (partialText: string): string => {
+  const base = 'Your previous reply was cut off. Continue EXACTLY where it stopped, starting with the very next character. Do not repeat any earlier text, do not add an introduction, and do not acknowledge this instruction.';
+  if (hasOpenHtmlBlock(partialText)) {
+    return `${base} You stopped inside an unfinished \`\`\`html code block: continue the HTML code directly (do NOT open a new \`\`\`html fence) and close the block with \`\`\` when the code is complete.`;
+  }
+  return base;
+};
+
+// Appends a continuation to the partial text, dropping a re-opened ```html fence
+// if the model restarted the block it was already inside.
+export const mergeContinuation = (partialText: string, continuation: string): string => {
+  if (hasOpenHtmlBlock(partialText)) {
+    return partialText + continuation.replace(/^\s*```html[^\S\n]*\n?/, '');
+  }
+  return partialText + continuation;
+};
+
+// Pro models cannot turn thinking off: "Off" only hides the thoughts and uses the smallest budget
+const ALWAYS_THINKING_PATTERN = /pro/;
+const MIN_PRO_THINKING_BUDGET = 128;
+
+// Per-chat settings that shape the request config
+export type ChatOptions = Pick<ChatRequest, 'thinkingBudget' | 'instructions' | 'useSearch' | 'responseSchema'> & GenerationSettings;
+
+const SAFETY_CATEGORIES = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT
+];
+
+const buildSafetySettings = (threshold: SafetyThreshold): SafetySetting[] =>
+  SAFETY_CATEGORIES.map(category => ({ category, threshold: threshold as HarmBlockThreshold }));
+
+// Per-request config replaces the chat config in the SDK instead of merging with it,
+// so callers that add request options (e.g. abortSignal) must spread this in.
+// Thinking models also stream their thought summaries, as parts marked `thought`.
+export const getChatConfig = (modelId: ModelId, options: ChatOptions = {}): GenerateContentConfig => {
+  const { thinkingBudget, instructions, useSearch, responseSchema, temperature, topP, maxOutputTokens, safetyThreshold } = options;
+  const budget = thinkingBudget === 0 && ALWAYS_THINKING_PATTERN.test(modelId) ? MIN_PRO_THINKING_BUDGET : thinkingBudget;
+  return {
+    systemInstruction: getSystemInstruction(modelId, instructions),
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(topP !== undefined ? { topP } : {}),
+    ...(maxOutputTokens !== undefined ? { maxOutputTokens } : {}),
+    ...(safetyThreshold ? { safetySettings: buildSafetySettings(safetyThreshold) } : {}),
+    ...(useSearch ? { tools: [{ googleSearch: {} }] } : {}),
+    ...(responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: responseSchema } : {}),
+    ...(supportsThinking(modelId) ? {
+      thinkingConfig: {
+        includeThoughts: thinkingBudget !== 0,
+        ...(budget !== undefined ? { thinkingBudget: budget } : {})
+      }
+    } : {}),
+  };
+};
+
+export const createChat = (modelId: ModelId = 'gemini-3-pro-preview', apiKey: string, history: Message[] = []): Chat => {
+  const ai = new GoogleGenAI({ apiKey: apiKey });
+
+  return ai.chats.create({
+    model: modelId,
+    history: buildHistory(history),
+    config: getChatConfig(modelId),
+  });
+};
+
+// Finish reasons that mean the reply was cut by a filter rather than finished
+const BLOCK_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+// e.g. "Prompt blocked: SAFETY" or "SAFETY: DANGEROUS_CONTENT (HIGH)"
+const getBlockReason = (response: GenerateContentResponse): string | undefined => {
+  const promptBlock = response.promptFeedback?.blockReason;
+  if (promptBlock) {
+    const detail = response.promptFeedback?.blockReasonMessage;
+    return `Prompt blocked: ${promptBlock}${detail ? ` (${detail})` : ''}`;
+  }
+
+  const candidate = response.candidates?.[0];
+  if (!candidate?.finishReason || !BLOCK_FINISH_REASONS.includes(candidate.finishReason)) return undefined;
+  const ratings = (candidate.safetyRatings || [])
+    .filter(rating => rating.blocked)
+    .map(rating => `${String(rating.category).replace('HARM_CATEGORY_', '')} (${rating.probability})`);
+  return ratings.length > 0 ? `${candidate.finishReason}: ${ratings.join(', ')}` : candidate.finishReason;
+};
+
+// Web sources and the answer passages they support
+const toGrounding = (metadata?: GroundingMetadata): Grounding | undefined => {
+  const chunks = metadata?.groundingChunks || [];
+  if (chunks.length === 0) return undefined;
+
+  const sources = chunks.map(chunk => ({
+    uri: chunk.web?.uri || '',
+    title: chunk.web?.title || chunk.web?.domain || chunk.web?.uri || 'Source'
+  }));
+  const citations = (metadata?.groundingSupports || [])
+    .filter(support => support.segment?.text && support.groundingChunkIndices?.length)
+    .map(support => ({
+      text: support.segment!.text!,
+      sources: support.groundingChunkIndices!.filter(i => sources[i]?.uri)
+    }));
+  return { sources, citations, queries: metadata?.webSearchQueries };
+};
+
+const toStreamChunk = (response: GenerateContentResponse): StreamChunk => {
+  const usage = response.usageMetadata;
+  const thought = (response.candidates?.[0]?.content?.parts || [])
+    .filter(part => part.thought && part.text)
+    .map(part => part.text)
+    .join('');
+  return {
+    text: response.text || '',
+    thought: thought || undefined,
+    finishReason: response.candidates?.[0]?.finishReason,
+    blockReason: getBlockReason(response),
+    grounding: toGrounding(response.candidates?.[0]?.groundingMetadata),
+    usage: usage ? {
+      promptTokens: usage.promptTokenCount || 0,
+      responseTokens: usage.candidatesTokenCount || 0,
+      thinkingTokens: usage.thoughtsTokenCount || 0
+    } : undefined
+  };
+};
+
+const buildRequestMessage = (message: string, attachments: Attachment[] = []): PartListUnion => {
+  return attachments.length === 0 ? message : buildParts(message, attachments);
+};
+
+export const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  requiresApiKey: true,
+
+  listModels: (apiKey: string, refresh?: boolean) => discoverGeminiModels(apiKey, refresh),
+
+  async *streamMessage(request: ChatRequest) {
+    const { modelId, apiKey, history, message, attachments, signal } = request;
+    const chat = createChat(modelId, apiKey, history);
+    const stream = await chat.sendMessageStream({
+      message: buildRequestMessage(message, attachments),
+      config: { ...getChatConfig(modelId, request), abortSignal: signal }
+    });
+    for await (const response of stream) {
+      yield toStreamChunk(response);
     }
+  },
 
-    const result = await chat.sendMessageStream({ 
-      message: parts.length === 1 ? message : parts 
+  async sendMessage(request: ChatRequest) {
+    const { modelId, apiKey, history, message, attachments, signal } = request;
+    const chat = createChat(modelId, apiKey, history);
+    const response = await chat.sendMessage({
+      message: buildRequestMessage(message, attachments),
+      config: { ...getChatConfig(modelId, request), abortSignal: signal }
     });
-    
-    return result;
-  } catch (error) {
-    console.error("Error sending message:", error);
-    throw error;
-  }
-};
\ No newline at end of file
+    return toStreamChunk(response);
+  },
+};
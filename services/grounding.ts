@@ -0,0 +1,61 @@
+import { Grounding } from "../types";
+
+// Google Search grounding. A streamed answer may report its sources over several
+// chunks, so they are merged into one Grounding per reply; when rendering, each cited
+// passage gets numbered markers that link to its sources.
+
+// Adds `next` to `current`, keeping one entry per source URI
+export const mergeGrounding = (current: Grounding | undefined, next: Grounding | undefined): Grounding | undefined => {
+  if (!next) return current;
+  if (!current) return next;
+
+  const sources = [...current.sources];
+  const indexMap = next.sources.map(source => {
+    const existing = sources.findIndex(s => s.uri === source.uri);
+    if (existing !== -1) return existing;
+    sources.push(source);
+    return sources.length - 1;
+  });
+
+  let citations = current.citations;
+  next.citations.forEach(citation => {
+    const mapped = citation.sources.map(i => indexMap[i]).filter(i => i !== undefined);
+    const existing = citations.findIndex(c => c.text === citation.text);
+    citations = existing === -1
+      ? [...citations, { text: citation.text, sources: mapped }]
+      : citations.map((c, i) => i === existing ? { ...c, sources: [...new Set([...c.sources, ...mapped])] } : c);
+  });
+
+  const queries = [...new Set([...(current.queries || []), ...(next.queries || [])])];
+  return { sources, citations, queries: queries.length > 0 ? queries : undefined };
+};
+
+// Markdown link used as a citation marker, e.g. "[\[2\]](https://...)". ChatMessage
+// recognizes the "[n]" link text and renders it as a superscript.
+const buildMarker = (index: number, uri: string) => `[\\[${index + 1}\\]](${uri})`;
+
+export const isCitationMarker = (linkText: string): boolean => /^\[\d+\]$/.test(linkText);
+
+// Inserts markers after each cited passage found in `markdown`. Passages are matched by
+// text in answer order; ones that cannot be found (e.g. rewritten by a continuation) are skipped.
+export const addCitationMarkers = (markdown: string, grounding?: Grounding): string => {
+  if (!grounding || grounding.citations.length === 0) return markdown;
+
+  let result = markdown;
+  let cursor = 0;
+  grounding.citations.forEach(citation => {
+    const passage = citation.text.trim();
+    const sources = citation.sources.filter(i => grounding.sources[i]);
+    if (!passage || sources.length === 0) return;
+
+    let start = result.indexOf(passage, cursor);
+    if (start === -1) start = result.indexOf(passage);
+    if (start === -1) return;
+
+    const end = start + passage.length;
+    const markers = sources.map(i => buildMarker(i, grounding.sources[i].uri)).join('');
+    result = result.slice(0, end) + markers + result.slice(end);
+    cursor = end + markers.length;
+  });
+  return result;
+};
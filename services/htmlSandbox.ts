@@ -0,0 +1,122 @@
+// Sandbox for model-generated HTML widgets. Widgets run in an iframe without
+// allow-same-origin, so they get an opaque origin and cannot reach the app's storage
+// (which holds the API key), and a Content-Security-Policy injected at the top of the
+// document blocks requests and external files. A widget may opt in to loading KaTeX
+// and the Google Fonts the prompt asks for; everything else stays blocked. (CSP cannot
+// stop a widget from navigating its own frame, which the scan flags.)
+//
+// Before a widget is opened, scanWidget lists the network calls and suspicious code in
+// it, so the student can see what it tries to do.
+
+// The KaTeX build the system instruction points widgets at
+export const KATEX_CDN = 'https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/';
+
+// CSP sources allowed with the network opt-in. A source ending in "/" covers the
+// files under that path; any other source is one exact path.
+const ALLOWED_SCRIPTS = [KATEX_CDN];
+const ALLOWED_STYLES = [KATEX_CDN, 'https://fonts.googleapis.com/css2'];
+const ALLOWED_FONTS = [KATEX_CDN, 'https://fonts.gstatic.com/s/'];
+
+const EXCERPT_CHARS = 60;
+
+export type WidgetFindingKind = 'network' | 'suspicious';
+
+export interface WidgetFinding {
+  kind: WidgetFindingKind;
+  label: string;
+  excerpt: string; // The matching code, shortened
+}
+
+export interface WidgetScan {
+  findings: WidgetFinding[];
+  cdnUrls: string[]; // External resources the "allow network" opt-in lets load (KaTeX, fonts)
+  blockedUrls: string[]; // External resources that are blocked either way
+}
+
+const RULES: { kind: WidgetFindingKind; label: string; pattern: RegExp }[] = [
+  { kind: 'network', label: 'fetch() request', pattern: /\bfetch\s*\(/ },
+  { kind: 'network', label: 'XMLHttpRequest', pattern: /\bXMLHttpRequest\b/ },
+  { kind: 'network', label: 'WebSocket connection', pattern: /\bWebSocket\s*\(/ },
+  { kind: 'network', label: 'EventSource stream', pattern: /\bEventSource\s*\(/ },
+  { kind: 'network', label: 'navigator.sendBeacon()', pattern: /\bsendBeacon\s*\(/ },
+  { kind: 'network', label: 'Dynamic import()', pattern: /\bimport\s*\(/ },
+  { kind: 'network', label: 'Form that posts to a URL', pattern: /<form\b[^>]*\baction\s*=\s*["']?https?:/i },
+  { kind: 'network', label: 'Embedded frame', pattern: /<iframe\b/i },
+  { kind: 'suspicious', label: 'eval()', pattern: /\beval\s*\(/ },
+  { kind: 'suspicious', label: 'new Function()', pattern: /\bnew\s+Function\s*\(/ },
+  { kind: 'suspicious', label: 'Decodes hidden text (atob)', pattern: /\batob\s*\(/ },
+  { kind: 'suspicious', label: 'Cookie access', pattern: /\bdocument\.cookie\b/ },
+  { kind: 'suspicious', label: 'Browser storage access', pattern: /\b(localStorage|sessionStorage|indexedDB)\b/ },
+  { kind: 'suspicious', label: 'Reaches into the app page', pattern: /\b(parent|top|opener)\s*\.\s*(document|location|localStorage|sessionStorage|frames)\b/ },
+  { kind: 'suspicious', label: 'Navigates the page away', pattern: /\blocation(\.href)?\s*=[^=]/ },
+  { kind: 'suspicious', label: 'Opens new windows', pattern: /\bwindow\.open\s*\(/ }
+];
+
+// src/href attributes and CSS url()/@import pointing at http(s) URLs
+const EXTERNAL_URL_PATTERN = /(?:\b(?:src|href)\s*=\s*["']?|url\(\s*["']?|@import\s+["'])(https?:\/\/[^"'\s)>]+)/gi;
+
+const getExcerpt = (code: string, index: number): string => {
+  const excerpt = code.slice(index, index + EXCERPT_CHARS).split('\n')[0].trim();
+  return excerpt.length < code.length - index ? `${excerpt}…` : excerpt;
+};
+
+// Matches like CSP path sources; the query string is not part of the path
+const isCdnUrl = (url: string): boolean => {
+  const path = url.split(/[?#]/)[0];
+  return [...ALLOWED_SCRIPTS, ...ALLOWED_STYLES, ...ALLOWED_FONTS].some(source => source.endsWith('/') ? path.startsWith(source) : path === source);
+};
+
+const getHost = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+export const scanWidget = (code: string): WidgetScan => {
+  const findings: WidgetFinding[] = [];
+  RULES.forEach(rule => {
+    const match = rule.pattern.exec(code);
+    if (match) findings.push({ kind: rule.kind, label: rule.label, excerpt: getExcerpt(code, match.index) });
+  });
+
+  const urls = [...new Set([...code.matchAll(EXTERNAL_URL_PATTERN)].map(match => match[1]))];
+  const cdnUrls = urls.filter(isCdnUrl);
+  const blockedUrls = urls.filter(url => !isCdnUrl(url));
+  [...new Set(blockedUrls.map(getHost))].forEach(host => {
+    findings.push({ kind: 'network', label: `Loads resources from ${host} (blocked)`, excerpt: blockedUrls.find(url => getHost(url) === host)! });
+  });
+
+  return { findings, cdnUrls, blockedUrls };
+};
+
+export const getWidgetCsp = (allowNetwork: boolean): string => {
+  const allowed = (sources: string[]) => allowNetwork ? ` ${sources.join(' ')}` : '';
+  return [
+    "default-src 'none'",
+    `script-src 'unsafe-inline'${allowed(ALLOWED_SCRIPTS)}`,
+    `style-src 'unsafe-inline'${allowed(ALLOWED_STYLES)}`,
+    `font-src data:${allowed(ALLOWED_FONTS)}`,
+    "img-src data: blob:",
+    "media-src data: blob:",
+    "connect-src 'none'",
+    "form-action 'none'",
+    "frame-src 'none'",
+    "base-uri 'none'"
+  ].join('; ');
+};
+
+// A meta CSP only covers what comes after it, so it goes first: right after a leading
+// doctype (which must stay first to avoid quirks mode), or at the very start
+export const buildWidgetDocument = (code: string, allowNetwork: boolean): string => {
+  const meta = `<meta http-equiv="Content-Security-Policy" content="${getWidgetCsp(allowNetwork)}">`;
+  const doctype = /^\s*<!doctype[^>]*>/i.exec(code);
+  if (!doctype) return meta + code;
+  return doctype[0] + meta + code.slice(doctype[0].length);
+};
+
+// Sandbox flags for widget iframes. Never add allow-same-origin: together with
+// allow-scripts it would let the widget read the app's localStorage. Popups are left
+// out too, since CSP does not govern what a popup loads.
+export const WIDGET_SANDBOX = 'allow-scripts allow-forms allow-modals';
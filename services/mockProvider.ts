@@ -0,0 +1,336 @@
+import { ChatRequest, Grounding, LLMProvider, ModelInfo, StreamChunk, TokenUsage } from "../types";
+
+// Offline provider for developing the UI without a key or network. Replies are
+// scripted and picked from keywords in the message, so the same input always
+// streams the same output:
+//   a request with a response schema     → a structured quiz, or flashcards when
+//                                          the schema asks for cards, as JSON
+//   "quiz" / "(QZ)" / "اختبار"            → quiz widget in a ```html block
+//   "simulation" / "visualize" / "محاكاة" → canvas simulation in a ```html block
+//   "truncate"                           → half an answer ending with MAX_TOKENS
+//   "mock error"                         → a 429 error, as when the quota runs out
+//   "mock blocked"                       → an empty reply blocked by the safety filter
+//   anything else                        → a worked math answer with $$ formulas,
+//                                          preceded by a short thought summary
+//                                          (and with cited sources when search is on)
+
+export const MOCK_MODELS: ModelInfo[] = [
+  {
+    id: 'mock-tutor',
+    name: 'Mock Tutor (Offline)',
+    description: 'Scripted replies, no API key or network needed.',
+    capabilities: { vision: false, audio: false, thinking: true, search: true }
+  }
+];
+
+const CHUNK_SIZE = 24;
+const CHUNK_DELAY_MS = 25;
+
+const MATH_REPLY = `## القانون العام → The Quadratic Formula
+
+For any equation of the form $ax^2 + bx + c = 0$ with $a \\neq 0$:
+
+$$x = \\frac{-b \\pm \\sqrt{b^2 - 4ac}}{2a}$$
+
+**Example:** $x^2 - 5x + 6 = 0$ → $a = 1$, $b = -5$, $c = 6$
+
+$$\\Delta = b^2 - 4ac = 25 - 24 = 1$$
+
+$$x_1 = \\frac{5 + 1}{2} = 3 \\qquad x_2 = \\frac{5 - 1}{2} = 2$$
+
+| Discriminant | Roots |
+|---|---|
+| $\\Delta > 0$ | Two real roots |
+| $\\Delta = 0$ | One repeated root |
+| $\\Delta < 0$ | No real roots |
+
+*(Mock provider: scripted answer.)*`;
+
+const MATH_THOUGHT = `**Identifying the task**
+The student wants the general method for quadratic equations, so I'll state the formula and work one example whose roots are integers.
+
+**Choosing the example**
+$x^2 - 5x + 6$ factors as $(x-2)(x-3)$, which makes it easy to check the result.`;
+
+// Passages of MATH_REPLY, as Google Search grounding would report them
+const MATH_GROUNDING: Grounding = {
+  sources: [
+    { uri: 'https://en.wikipedia.org/wiki/Quadratic_formula', title: 'wikipedia.org' },
+    { uri: 'https://en.wikipedia.org/wiki/Discriminant', title: 'wikipedia.org' }
+  ],
+  citations: [
+    { text: 'For any equation of the form $ax^2 + bx + c = 0$ with $a \\neq 0$:', sources: [0] },
+    { text: 'No real roots', sources: [0, 1] }
+  ],
+  queries: ['quadratic formula', 'discriminant number of roots']
+};
+
+const QUIZ_REPLY = `اختبار سريع على **قانون نيوتن الثاني** → Quick quiz on Newton's second law.
+
+\`\`\`html
+<!DOCTYPE html>
+<html>
+<head>
+<link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/katex.min.css">
+<style>
+.katex { color: #fbbf24 !important; text-shadow: 0 0 10px rgba(251, 191, 36, 0.3); direction: ltr; font-weight: bold; }
+body { background-color: #0d1117; color: white; font-family: 'Cairo', sans-serif; padding: 16px; }
+.btn-gold { background: linear-gradient(to right, #fbbf24, #d97706); color: black; border: none; font-weight: bold; }
+.option { display: block; width: 100%; margin: 6px 0; padding: 10px; border-radius: 8px; background: #161b22; color: white; border: 1px solid #30363d; text-align: left; cursor: pointer; }
+.correct { border-color: #10b981; background: #064e3b; }
+.wrong { border-color: #ef4444; background: #450a0a; }
+</style>
+</head>
+<body>
+<h2>📖 Ayat Bayyinat — Quiz</h2>
+<div id="quiz"></div>
+<p id="score"></p>
+<button class="btn-gold" onclick="window.parent.postMessage({ type: 'ayat:variant', request: 'harder' }, '*')">New variant (harder)</button>
+<script>
+const questions = [
+  { q: "A 2 kg cart accelerates at 3 m/s². What is the net force?", options: ["1.5 N", "5 N", "6 N", "9 N"], answer: 2, why: "F = m·a = 2 × 3 = 6 N", topic: "Newton's second law" },
+  { q: "If the net force doubles and the mass stays the same, the acceleration…", options: ["halves", "doubles", "stays the same", "quadruples"], answer: 1, why: "a = F/m, so a grows with F.", topic: "Force and acceleration" }
+];
+let score = 0;
+let answered = 0;
+const root = document.getElementById("quiz");
+questions.forEach((item, i) => {
+  const box = document.createElement("div");
+  box.innerHTML = "<h3>" + (i + 1) + ". " + item.q + "</h3>";
+  item.options.forEach((text, j) => {
+    const btn = document.createElement("button");
+    btn.className = "option";
+    btn.textContent = String.fromCharCode(65 + j) + ") " + text;
+    btn.onclick = () => {
+      if (box.dataset.done) return;
+      box.dataset.done = "1";
+      btn.classList.add(j === item.answer ? "correct" : "wrong");
+      if (j === item.answer) score++;
+      window.parent.postMessage({ type: "ayat:answer", topic: item.topic, option: text, correct: j === item.answer }, "*");
+      const note = document.createElement("p");
+      note.textContent = (j === item.answer ? "✅ " : "❌ ") + item.why;
+      box.appendChild(note);
+      const ask = document.createElement("button");
+      ask.textContent = "Ask the tutor why";
+      ask.onclick = () => window.parent.postMessage({ type: "ayat:ask", question: 'In the quiz question "' + item.q + '", explain why ' + text + " is " + (j === item.answer ? "right" : "wrong") + "." }, "*");
+      box.appendChild(ask);
+      document.getElementById("score").textContent = "Score: " + score + " / " + questions.length;
+      if (++answered === questions.length) {
+        window.parent.postMessage({ type: "ayat:score", score: score, total: questions.length, topic: "Newton's second law" }, "*");
+      }
+    };
+    box.appendChild(btn);
+  });
+  root.appendChild(box);
+});
+</script>
+</body>
+</html>
+\`\`\``;
+
+const SIMULATION_REPLY = `محاكاة **الحركة المتسارعة** → A uniformly accelerated motion simulation, where $$x = \\frac{1}{2}at^2$$
+
+\`\`\`html
+<!DOCTYPE html>
+<html>
+<head>
+<style>
+body { background-color: #0d1117; color: white; font-family: 'Cairo', sans-serif; padding: 16px; }
+.btn-gold { background: linear-gradient(to right, #fbbf24, #d97706); color: black; border: none; font-weight: bold; padding: 6px 14px; border-radius: 8px; }
+canvas { background: #161b22; border-radius: 12px; width: 100%; }
+</style>
+</head>
+<body>
+<h2>📖 Ayat Bayyinat — Simulation</h2>
+<label>a = <span id="aValue">2</span> m/s² <input id="a" type="range" min="1" max="10" value="2"></label>
+<button class="btn-gold" id="reset">Reset</button>
+<canvas id="c" width="600" height="160"></canvas>
+<script>
+const canvas = document.getElementById("c");
+const ctx = canvas.getContext("2d");
+const slider = document.getElementById("a");
+let t = 0;
+slider.oninput = () => { document.getElementById("aValue").textContent = slider.value; t = 0; };
+document.getElementById("reset").onclick = () => { t = 0; };
+function frame() {
+  const a = Number(slider.value);
+  const x = (0.5 * a * t * t * 10) % canvas.width;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = "#fbbf24";
+  ctx.beginPath();
+  ctx.arc(20 + x, 80, 14, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = "white";
+  ctx.fillText("t = " + t.toFixed(1) + " s", 10, 20);
+  t += 1 / 60;
+  requestAnimationFrame(frame);
+}
+frame();
+</script>
+</body>
+</html>
+\`\`\``;
+
+const TRUNCATED_REPLY = `## Kinematics equations → معادلات الحركة
+
+1. $$v = v_0 + at$$
+2. $$x = v_0 t + \\frac{1}{2}at^2$$
+3. $$v^2 = v_0^2 + 2a`;
+
+const CONTINUATION_REPLY = ` \\Delta x$$
+
+These three relations cover every problem with constant acceleration.
+
+*(Mock provider: continued answer.)*`;
+
+const OPEN_HTML_CONTINUATION_REPLY = `
+<p>Continued by the mock provider.</p>
+</body>
+</html>
+\`\`\``;
+
+interface MockScript {
+  text: string;
+  finishReason: string;
+  thought?: string;
+  blockReason?: string;
+  grounding?: Grounding;
+}
+
+const matchesAny = (text: string, keywords: string[]) => keywords.some(keyword => text.includes(keyword));
+
+const STRUCTURED_QUIZ_REPLY = JSON.stringify({
+  title: 'Quadratic Equations Check',
+  questions: [
+    {
+      question: 'What is the discriminant of $x^2 - 5x + 6 = 0$?',
+      options: ['$-1$', '$1$', '$11$', '$49$'],
+      correctIndex: 1,
+      explanation: '$\\Delta = b^2 - 4ac = 25 - 24 = 1$.',
+      difficulty: 'easy',
+      topic: 'Discriminant'
+    },
+    {
+      question: 'How many real roots does an equation with $\\Delta < 0$ have?',
+      options: ['None', 'One', 'Two', 'Infinitely many'],
+      correctIndex: 0,
+      explanation: 'A negative discriminant has no real square root, so there are no real roots.',
+      difficulty: 'easy',
+      topic: 'Discriminant'
+    },
+    {
+      question: 'Which are the roots of $x^2 - 5x + 6 = 0$?',
+      options: ['$1$ and $6$', '$-2$ and $-3$', '$2$ and $3$', '$-1$ and $6$'],
+      correctIndex: 2,
+      explanation: '$x^2 - 5x + 6 = (x-2)(x-3)$, so $x = 2$ or $x = 3$.',
+      difficulty: 'medium',
+      topic: 'Quadratic formula'
+    }
+  ]
+}, null, 2);
+
+const STRUCTURED_FLASHCARDS_REPLY = JSON.stringify({
+  cards: [
+    { kind: 'term', front: 'Quadratic equation', back: 'An equation of the form $ax^2 + bx + c = 0$ with $a \\neq 0$.' },
+    { kind: 'term', front: 'Discriminant', back: '$\\Delta = b^2 - 4ac$; its sign tells how many real roots the equation has.' },
+    { kind: 'formula', front: 'Roots of a quadratic equation', back: '$$x = \\frac{-b \\pm \\sqrt{\\Delta}}{2a}$$\n\n$a, b, c$: the coefficients, $\\Delta$: the discriminant.' }
+  ]
+}, null, 2);
+
+const pickScript = (request: ChatRequest): MockScript => {
+  const { message, attachments = [] } = request;
+  const text = message.toLowerCase();
+
+  if (text.startsWith('your previous reply was cut off')) {
+    const insideHtml = text.includes('unfinished ```html');
+    return { text: insideHtml ? OPEN_HTML_CONTINUATION_REPLY : CONTINUATION_REPLY, finishReason: 'STOP' };
+  }
+  if (request.responseSchema) {
+    const properties = (request.responseSchema.properties || {}) as Record<string, unknown>;
+    return { text: 'cards' in properties ? STRUCTURED_FLASHCARDS_REPLY : STRUCTURED_QUIZ_REPLY, finishReason: 'STOP' };
+  }
+  if (text.includes('mock error')) {
+    throw new Error('[429 Too Many Requests] Resource has been exhausted (mock quota).');
+  }
+  if (text.includes('mock blocked')) {
+    return { text: '', finishReason: 'SAFETY', blockReason: 'SAFETY: DANGEROUS_CONTENT (HIGH)' };
+  }
+  if (text.includes('truncate')) {
+    return { text: TRUNCATED_REPLY, finishReason: 'MAX_TOKENS' };
+  }
+  if (matchesAny(text, ['quiz', '(qz)', 'اختبار'])) {
+    return { text: QUIZ_REPLY, finishReason: 'STOP' };
+  }
+  if (matchesAny(text, ['simulation', 'visualize', 'show me', 'محاكاة'])) {
+    return { text: SIMULATION_REPLY, finishReason: 'STOP' };
+  }
+
+  const attachmentNote = attachments.length > 0 ? `\n\n*(Received ${attachments.length} attachment(s); the mock provider does not read them.)*` : '';
+  return {
+    text: MATH_REPLY + attachmentNote,
+    finishReason: 'STOP',
+    thought: request.thinkingBudget === 0 ? undefined : MATH_THOUGHT,
+    grounding: request.useSearch ? MATH_GROUNDING : undefined
+  };
+};
+
+// Roughly four characters per token, like the real tokenizers on English text
+const estimateUsage = (request: ChatRequest, replyText: string): TokenUsage => {
+  const promptLength = request.history.reduce((sum, msg) => sum + msg.text.length, request.message.length);
+  return {
+    promptTokens: Math.ceil(promptLength / 4),
+    responseTokens: Math.ceil(replyText.length / 4),
+    thinkingTokens: 0
+  };
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new Error('Request aborted'));
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new Error('Request aborted'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const mockProvider: LLMProvider = {
+  id: 'mock',
+  name: 'Offline Mock',
+  requiresApiKey: false,
+
+  listModels: async () => MOCK_MODELS,
+
+  async *streamMessage(request: ChatRequest) {
+    const script = pickScript(request);
+    if (script.blockReason) {
+      await wait(CHUNK_DELAY_MS, request.signal);
+      yield { text: '', finishReason: script.finishReason, blockReason: script.blockReason, usage: estimateUsage(request, '') };
+      return;
+    }
+    for (let i = 0; i < (script.thought?.length || 0); i += CHUNK_SIZE) {
+      await wait(CHUNK_DELAY_MS, request.signal);
+      yield { text: '', thought: script.thought!.slice(i, i + CHUNK_SIZE) };
+    }
+    for (let i = 0; i < script.text.length; i += CHUNK_SIZE) {
+      await wait(CHUNK_DELAY_MS, request.signal);
+      const isLast = i + CHUNK_SIZE >= script.text.length;
+      const chunk: StreamChunk = { text: script.text.slice(i, i + CHUNK_SIZE) };
+      if (isLast) {
+        chunk.finishReason = script.finishReason;
+        chunk.grounding = script.grounding;
+        chunk.usage = estimateUsage(request, script.text);
+      }
+      yield chunk;
+    }
+  },
+
+  async sendMessage(request: ChatRequest) {
+    const script = pickScript(request);
+    await wait(CHUNK_DELAY_MS, request.signal);
+    return { text: script.text, finishReason: script.finishReason, blockReason: script.blockReason, grounding: script.grounding, usage: estimateUsage(request, script.text) };
+  },
+};
@@ -0,0 +1,168 @@
+import { GoogleGenAI, Model } from "@google/genai";
+import { GeminiModelId, ModelCapabilities, ModelInfo } from "../types";
+
+// Gemini models the app knows well. They are shown first and keep these names and
+// descriptions over whatever the API reports; they are also the fallback list when
+// discovery fails (offline, invalid key).
+export const AVAILABLE_MODELS: (ModelInfo & { id: GeminiModelId })[] = [
+  {
+    id: 'gemini-3-pro-preview',
+    name: 'Gemini 3 Pro',
+    description: 'Smartest, best for complex math & reasoning.',
+    capabilities: { vision: true, audio: true, thinking: true, contextWindow: 1048576, search: true }
+  },
+  {
+    id: 'gemini-2.0-pro-exp-02-05',
+    name: 'Gemini 2.0 Pro (Experimental)',
+    description: 'Advanced reasoning, balanced speed/quality.',
+    capabilities: { vision: true, audio: true, thinking: false, contextWindow: 2097152, search: true }
+  },
+  {
+    id: 'gemini-2.5-flash',
+    name: 'Gemini 2.5 Flash',
+    description: 'Fast, higher rate limits, great for daily tasks.',
+    capabilities: { vision: true, audio: true, thinking: true, contextWindow: 1048576, search: true }
+  },
+  {
+    id: 'gemini-flash-lite-latest',
+    name: 'Gemini Flash Lite',
+    description: 'Fastest, "Unlimited" feel, lightweight.',
+    capabilities: { vision: true, audio: true, thinking: true, contextWindow: 1048576, search: true }
+  }
+];
+
+// 2.5+ models think; the -latest aliases point at them
+const THINKING_MODEL_PATTERN = /gemini-(2\.5|3)|gemini-(flash|flash-lite|pro)-latest/;
+
+export const supportsThinking = (modelId: string): boolean => {
+  const curated = AVAILABLE_MODELS.find(m => m.id === modelId);
+  return curated?.capabilities?.thinking ?? THINKING_MODEL_PATTERN.test(modelId);
+};
+
+// Per-chat thinking budgets (ChatSession.thinkingBudget). Auto lets the model decide.
+export const THINKING_BUDGETS: { label: string; budget?: number }[] = [
+  { label: 'Auto' },
+  { label: 'Off', budget: 0 },
+  { label: 'Light', budget: 1024 },
+  { label: 'Medium', budget: 8192 },
+  { label: 'Deep', budget: 24576 }
+];
+
+const CACHE_KEY = 'ayat_model_cache';
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const CACHE_VERSION = 2; // Bumped when ModelInfo gains fields, so older caches are refetched
+
+// Chat models only: embeddings, image/speech generation and live-audio models
+// cannot answer a text conversation.
+const EXCLUDED_MODEL_PATTERN = /embedding|aqa|imagen|veo|tts|native-audio|live|image-generation|-image|computer-use|robotics/;
+
+interface ModelCache {
+  version?: number;
+  keyHash: string;
+  fetchedAt: number;
+  models: ModelInfo[];
+}
+
+// The cache belongs to one key: another key may see other models
+const hashKey = (apiKey: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < apiKey.length; i++) {
+    hash = ((hash << 5) + hash + apiKey.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const readCache = (apiKey: string): ModelInfo[] | null => {
+  try {
+    const cache: ModelCache = JSON.parse(localStorage.getItem(CACHE_KEY) || 'null');
+    if (!cache || cache.version !== CACHE_VERSION || cache.keyHash !== hashKey(apiKey) || Date.now() - cache.fetchedAt > CACHE_TTL_MS) return null;
+    return Array.isArray(cache.models) && cache.models.length > 0 ? cache.models : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeCache = (apiKey: string, models: ModelInfo[]) => {
+  const cache: ModelCache = { version: CACHE_VERSION, keyHash: hashKey(apiKey), fetchedAt: Date.now(), models };
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
+  } catch (e) {
+    console.error("Failed to cache the model list", e);
+  }
+};
+
+export const clearModelCache = () => {
+  localStorage.removeItem(CACHE_KEY);
+};
+
+// The listing does not report input modalities or tools; every Gemini chat model takes
+// images and audio and can search, Gemma models do none of these.
+const getCapabilities = (id: string, model: Model): ModelCapabilities => {
+  const isGemma = id.startsWith('gemma');
+  return {
+    vision: !isGemma,
+    audio: !isGemma,
+    search: !isGemma,
+    thinking: model.thinking ?? THINKING_MODEL_PATTERN.test(id),
+    contextWindow: model.inputTokenLimit
+  };
+};
+
+const toModelInfo = (model: Model): ModelInfo | null => {
+  const id = (model.name || '').replace(/^models\//, '');
+  if (!id || EXCLUDED_MODEL_PATTERN.test(id)) return null;
+  if (!model.supportedActions?.includes('generateContent')) return null;
+
+  const curated = AVAILABLE_MODELS.find(m => m.id === id);
+  return {
+    id,
+    name: curated?.name || model.displayName || id,
+    description: curated?.description || model.description || '',
+    capabilities: { ...getCapabilities(id, model), ...curated?.capabilities, contextWindow: model.inputTokenLimit ?? curated?.capabilities?.contextWindow }
+  };
+};
+
+// Curated models first in their usual order, then the rest by name
+const sortModels = (models: ModelInfo[]): ModelInfo[] => {
+  const rank = (m: ModelInfo) => {
+    const index = AVAILABLE_MODELS.findIndex(c => c.id === m.id);
+    return index === -1 ? AVAILABLE_MODELS.length : index;
+  };
+  return [...models].sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name));
+};
+
+// Lists the models this key can use, cached for a day. Curated models the key
+// cannot access are left out.
+export const discoverGeminiModels = async (apiKey: string, refresh = false): Promise<ModelInfo[]> => {
+  if (!apiKey) return AVAILABLE_MODELS;
+  if (!refresh) {
+    const cached = readCache(apiKey);
+    if (cached) return cached;
+  }
+
+  try {
+    const ai = new GoogleGenAI({ apiKey });
+    const pager = await ai.models.list({ config: { pageSize: 100 } });
+
+    const models: ModelInfo[] = [];
+    for await (const model of pager) {
+      const info = toModelInfo(model);
+      if (info && !models.some(m => m.id === info.id)) models.push(info);
+    }
+    if (models.length === 0) return AVAILABLE_MODELS;
+
+    const sorted = sortModels(models);
+    writeCache(apiKey, sorted);
+    return sorted;
+  } catch (e) {
+    console.error("Failed to discover models, using the built-in list", e);
+    return AVAILABLE_MODELS;
+  }
+};
+
+// "1M", "128K"
+export const formatContextWindow = (tokens?: number): string | null => {
+  if (!tokens) return null;
+  if (tokens >= 1000000) return `${Math.round(tokens / 1048576 * 10) / 10}M`;
+  return `${Math.round(tokens / 1024)}K`;
+};
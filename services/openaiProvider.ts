@@ -0,0 +1,232 @@
+import { Attachment, ChatRequest, LLMProvider, Message, ModelId, ModelInfo, OpenAIEndpoint, ProviderId, StreamChunk, TokenUsage } from "../types";
+import { getAttachmentMimeType, getSystemInstruction } from "./gemini";
+
+// Providers for user-configured OpenAI-compatible backends (OpenAI, OpenRouter,
+// Ollama, LM Studio, vLLM...). Their model ids carry the endpoint so a stored
+// message can always be routed back: "openai:<endpoint id>/<model name>".
+
+const MODEL_ID_PREFIX = 'openai:';
+
+type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ContentPart[];
+}
+
+export const getEndpointProviderId = (endpoint: OpenAIEndpoint): ProviderId => `openai:${endpoint.id}`;
+
+export const toEndpointModelId = (endpoint: OpenAIEndpoint, model: string): ModelId => `${MODEL_ID_PREFIX}${endpoint.id}/${model}`;
+
+// Returns null for ids that do not belong to an OpenAI-compatible endpoint
+export const parseEndpointModelId = (modelId: ModelId): { endpointId: string; model: string } | null => {
+  if (!modelId.startsWith(MODEL_ID_PREFIX)) return null;
+  const rest = modelId.slice(MODEL_ID_PREFIX.length);
+  const slash = rest.indexOf('/');
+  if (slash === -1) return null;
+  return { endpointId: rest.slice(0, slash), model: rest.slice(slash + 1) };
+};
+
+export const normalizeBaseUrl = (baseUrl: string): string => baseUrl.trim().replace(/\/+$/, '');
+
+const getHeaders = (endpoint: OpenAIEndpoint): Record<string, string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (endpoint.apiKey) headers['Authorization'] = `Bearer ${endpoint.apiKey}`;
+  return headers;
+};
+
+// Images become image_url parts when the endpoint accepts them; anything else is
+// named in the text so the model knows a file was there.
+const buildContent = (endpoint: OpenAIEndpoint, text: string, attachments: Attachment[] = []): string | ContentPart[] => {
+  const images = endpoint.supportsImages ? attachments.filter(att => att.type === 'image' && att.base64) : [];
+  const skipped = attachments.filter(att => !images.includes(att));
+
+  let fullText = text;
+  if (skipped.length > 0) {
+    const names = skipped.map(att => att.file?.name || getAttachmentMimeType(att)).join(', ');
+    fullText = `${text}\n\n[Attachments not supported by this model: ${names}]`.trim();
+  }
+
+  if (images.length === 0) return fullText;
+  return [
+    ...images.map(att => ({ type: 'image_url' as const, image_url: { url: `data:${getAttachmentMimeType(att)};base64,${att.base64}` } })),
+    ...(fullText ? [{ type: 'text' as const, text: fullText }] : [])
+  ];
+};
+
+// Same rules as the Gemini history: failed turns and empty placeholders are skipped
+const buildMessages = (endpoint: OpenAIEndpoint, model: string, request: ChatRequest): OpenAIMessage[] => {
+  const messages: OpenAIMessage[] = [{ role: 'system', content: getSystemInstruction(model, request.instructions) }];
+
+  request.history
+    .filter((msg: Message) => !msg.error && !msg.isStreaming && (msg.text || msg.attachments?.length))
+    .forEach(msg => {
+      messages.push({
+        role: msg.role === 'model' ? 'assistant' : 'user',
+        content: buildContent(endpoint, msg.text, msg.role === 'user' ? msg.attachments : [])
+      });
+    });
+
+  messages.push({ role: 'user', content: buildContent(endpoint, request.message, request.attachments) });
+  return messages;
+};
+
+const toBlockReason = (reason?: string | null): string | undefined => (reason === 'content_filter' ? 'SAFETY: content filter' : undefined);
+
+const toFinishReason = (reason?: string | null): string | undefined => {
+  if (!reason) return undefined;
+  if (reason === 'length') return 'MAX_TOKENS';
+  if (reason === 'content_filter') return 'SAFETY';
+  return reason.toUpperCase();
+};
+
+// Reasoning tokens are part of completion_tokens in this API
+const toUsage = (usage?: OpenAIUsage | null): TokenUsage | undefined => {
+  if (!usage) return undefined;
+  const thinkingTokens = usage.completion_tokens_details?.reasoning_tokens || 0;
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    responseTokens: Math.max(0, (usage.completion_tokens || 0) - thinkingTokens),
+    thinkingTokens
+  };
+};
+
+// Error messages keep the status code so callers can spot quota errors (429)
+const throwResponseError = async (response: Response): Promise<never> => {
+  let detail = '';
+  try {
+    const body = await response.json();
+    detail = body?.error?.message || JSON.stringify(body);
+  } catch {
+    detail = response.statusText;
+  }
+  throw new Error(`[${response.status}] ${detail}`);
+};
+
+// Base URLs of servers that reject `stream_options` with a 400, as some older ones do
+const withoutStreamOptions = new Set<string>();
+
+const postCompletion = async (endpoint: OpenAIEndpoint, request: ChatRequest, stream: boolean): Promise<Response> => {
+  const parsed = parseEndpointModelId(request.modelId);
+  if (!parsed) throw new Error(`Unknown model: ${request.modelId}`);
+
+  const baseUrl = normalizeBaseUrl(endpoint.baseUrl);
+  const body = {
+    model: parsed.model,
+    messages: buildMessages(endpoint, parsed.model, request),
+    stream,
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    ...(request.topP !== undefined ? { top_p: request.topP } : {}),
+    ...(request.maxOutputTokens !== undefined ? { max_tokens: request.maxOutputTokens } : {}),
+    ...(request.responseSchema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: request.responseSchema } } } : {})
+  };
+  const post = (extra: Record<string, unknown> = {}) => fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: getHeaders(endpoint),
+    body: JSON.stringify({ ...body, ...extra }),
+    signal: request.signal
+  });
+
+  // Servers that support it send the token usage in a last chunk
+  const askUsage = stream && !withoutStreamOptions.has(baseUrl);
+  let response = await post(askUsage ? { stream_options: { include_usage: true } } : {});
+  if (askUsage && response.status === 400) {
+    // Retry once without it; only a success shows the option was the problem
+    response = await post();
+    if (response.ok) withoutStreamOptions.add(baseUrl);
+  }
+  if (!response.ok) await throwResponseError(response);
+  return response;
+};
+
+// Parses the server-sent events of a streamed completion
+async function* readEventStream(response: Response): AsyncGenerator<StreamChunk> {
+  if (!response.body) throw new Error("The endpoint returned an empty response");
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) continue;
+        const payload = data.slice('data:'.length).trim();
+        if (payload === '[DONE]') return;
+
+        const event = JSON.parse(payload);
+        if (event.error) throw new Error(event.error.message || 'Stream error');
+        const choice = event.choices?.[0];
+        yield {
+          text: choice?.delta?.content || '',
+          // Reasoning models served by DeepSeek, vLLM or OpenRouter stream their reasoning separately
+          thought: choice?.delta?.reasoning_content || choice?.delta?.reasoning || undefined,
+          finishReason: toFinishReason(choice?.finish_reason),
+          blockReason: toBlockReason(choice?.finish_reason),
+          usage: toUsage(event.usage)
+        };
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export const listEndpointModels = async (endpoint: OpenAIEndpoint): Promise<string[]> => {
+  if (endpoint.models.length > 0) return endpoint.models;
+
+  const response = await fetch(`${normalizeBaseUrl(endpoint.baseUrl)}/models`, { headers: getHeaders(endpoint) });
+  if (!response.ok) await throwResponseError(response);
+  const body = await response.json();
+  return (body?.data || []).map((model: { id: string }) => model.id).filter(Boolean);
+};
+
+export const createOpenAIProvider = (endpoint: OpenAIEndpoint): LLMProvider => ({
+  id: getEndpointProviderId(endpoint),
+  name: endpoint.name,
+  requiresApiKey: false,
+
+  listModels: async (): Promise<ModelInfo[]> => {
+    const models = await listEndpointModels(endpoint);
+    return models.map(model => ({
+      id: toEndpointModelId(endpoint, model),
+      name: model,
+      description: normalizeBaseUrl(endpoint.baseUrl),
+      providerName: endpoint.name,
+      capabilities: { vision: !!endpoint.supportsImages }
+    }));
+  },
+
+  async *streamMessage(request: ChatRequest) {
+    const response = await postCompletion(endpoint, request, true);
+    yield* readEventStream(response);
+  },
+
+  async sendMessage(request: ChatRequest) {
+    const response = await postCompletion(endpoint, request, false);
+    const body = await response.json();
+    const choice = body?.choices?.[0];
+    return {
+      text: choice?.message?.content || '',
+      finishReason: toFinishReason(choice?.finish_reason),
+      blockReason: toBlockReason(choice?.finish_reason),
+      usage: toUsage(body?.usage)
+    };
+  },
+});
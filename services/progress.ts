@@ -0,0 +1,156 @@
+import { AnswerEvent, ChatSession } from "../types";
+import { getOptionLetter } from "./quiz";
+
+// Learning progress. Answers from HTML widgets and from A-D option buttons are logged
+// in localStorage as they happen; native quiz answers come from the attempts saved on
+// each session. Both are aggregated per topic for the progress dashboard.
+
+const PROGRESS_LOG_KEY = 'ayat_progress_log';
+const MAX_EVENTS = 2000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TREND_DAYS = 7;
+// Answers a topic needs before it can be called weak
+const MIN_GRADED = 2;
+
+export interface TopicStats {
+  topic: string;
+  answered: number;
+  graded: number; // Answers whose correctness is known
+  correct: number;
+  accuracy: number; // 0-1 over graded answers
+  recentAccuracy?: number; // Last TREND_DAYS days
+  previousAccuracy?: number; // The TREND_DAYS days before
+  lastAnsweredAt: number;
+}
+
+export interface WeeklyAccuracy {
+  weekStart: number;
+  graded: number;
+  accuracy?: number;
+}
+
+export const loadProgressLog = (): AnswerEvent[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PROGRESS_LOG_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error("Failed to load progress log", e);
+    return [];
+  }
+};
+
+const saveProgressLog = (log: AnswerEvent[]): AnswerEvent[] => {
+  const trimmed = log.slice(-MAX_EVENTS);
+  try {
+    localStorage.setItem(PROGRESS_LOG_KEY, JSON.stringify(trimmed));
+  } catch (e) {
+    console.error("Failed to save progress log", e);
+  }
+  return trimmed;
+};
+
+export const recordAnswer = (event: AnswerEvent): AnswerEvent[] => saveProgressLog([...loadProgressLog(), event]);
+
+// Sets the correctness of an option-button answer once the tutor has replied
+export const resolveAnswer = (id: string, correct: boolean): AnswerEvent[] =>
+  saveProgressLog(loadProgressLog().map(e => e.id === id ? { ...e, correct } : e));
+
+export const clearProgressLog = () => {
+  localStorage.removeItem(PROGRESS_LOG_KEY);
+};
+
+// Verdict of a tutor reply to an A-D answer. The system instruction asks the tutor to
+// open such replies with ✅ or ❌; without that marker the verdict stays unknown.
+const VERDICT_PATTERN = /^[\s*_#>]*(\u2705|\u274c)/;
+
+export const detectVerdict = (reply: string): boolean | undefined => {
+  const marker = VERDICT_PATTERN.exec(reply)?.[1];
+  return marker === undefined ? undefined : marker === '\u2705';
+};
+
+// One event per answered question of every saved quiz attempt
+export const getAttemptEvents = (sessions: ChatSession[]): AnswerEvent[] => sessions.flatMap(session =>
+  (session.quizAttempts || []).flatMap(attempt => {
+    const quiz = session.messages.find(m => m.id === attempt.messageId)?.quiz;
+    if (!quiz) return [];
+    return attempt.answers.flatMap((answer, i): AnswerEvent[] => {
+      const question = quiz.questions[i];
+      if (answer === null || !question) return [];
+      return [{
+        id: `${attempt.id}-${i}`,
+        sessionId: session.id,
+        messageId: attempt.messageId,
+        source: 'quiz',
+        topic: question.topic,
+        option: `${getOptionLetter(answer)}. ${question.options[answer] ?? ''}`,
+        correct: answer === question.correctIndex,
+        answeredAt: attempt.completedAt
+      }];
+    });
+  })
+);
+
+const getAccuracy = (events: AnswerEvent[]): number | undefined => {
+  const graded = events.filter(e => e.correct !== undefined);
+  return graded.length > 0 ? graded.filter(e => e.correct).length / graded.length : undefined;
+};
+
+// Topics are matched case-insensitively and shown with their latest spelling
+export const getTopicStats = (events: AnswerEvent[], now: number = Date.now()): TopicStats[] => {
+  const byTopic = new Map<string, AnswerEvent[]>();
+  events.forEach(event => {
+    const key = event.topic.trim().toLowerCase();
+    if (!key) return;
+    byTopic.set(key, [...(byTopic.get(key) || []), event]);
+  });
+
+  const recentStart = now - TREND_DAYS * DAY_MS;
+  const previousStart = recentStart - TREND_DAYS * DAY_MS;
+
+  return [...byTopic.values()].map(topicEvents => {
+    const sorted = [...topicEvents].sort((a, b) => a.answeredAt - b.answeredAt);
+    const latest = sorted[sorted.length - 1];
+    const graded = sorted.filter(e => e.correct !== undefined);
+    const correct = graded.filter(e => e.correct).length;
+    return {
+      topic: latest.topic.trim(),
+      answered: sorted.length,
+      graded: graded.length,
+      correct,
+      accuracy: graded.length > 0 ? correct / graded.length : 0,
+      recentAccuracy: getAccuracy(sorted.filter(e => e.answeredAt >= recentStart)),
+      previousAccuracy: getAccuracy(sorted.filter(e => e.answeredAt >= previousStart && e.answeredAt < recentStart)),
+      lastAnsweredAt: latest.answeredAt
+    };
+  }).sort((a, b) => b.lastAnsweredAt - a.lastAnsweredAt);
+};
+
+// Lowest accuracy first; among equals, the topic with more answers
+export const getWeakTopics = (stats: TopicStats[]): TopicStats[] =>
+  stats.filter(s => s.graded >= MIN_GRADED).sort((a, b) => a.accuracy - b.accuracy || b.graded - a.graded);
+
+// Overall accuracy per week, oldest first, ending with the current week
+export const getWeeklyAccuracy = (events: AnswerEvent[], weeks: number, now: number = Date.now()): WeeklyAccuracy[] => {
+  const getWeekStart = (weeksAgo: number) => {
+    const date = new Date(now);
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() - date.getDay() - weeksAgo * 7);
+    return date.getTime();
+  };
+
+  return Array.from({ length: weeks }, (_, i) => {
+    const weekStart = getWeekStart(weeks - 1 - i);
+    const weekEnd = getWeekStart(weeks - 2 - i);
+    const inWeek = events.filter(e => e.answeredAt >= weekStart && e.answeredAt < weekEnd);
+    return { weekStart, graded: inWeek.filter(e => e.correct !== undefined).length, accuracy: getAccuracy(inWeek) };
+  });
+};
+
+export const formatAccuracy = (accuracy?: number): string => accuracy === undefined ? '–' : `${Math.round(accuracy * 100)}%`;
+
+// First message of a "practice my weakest topic" session. Options are asked as "A) ..."
+// lines so they render as answer buttons and the answers are logged too.
+export const getPracticePrompt = (stats: TopicStats): string => `Help me practice **${stats.topic}**: it is my weakest topic (${formatAccuracy(stats.accuracy)} correct over ${stats.graded} answers).
+1. Briefly review the key ideas of this topic that students most often get wrong.
+2. Then ask me 3 multiple-choice questions, ONE at a time, with the options on separate lines as "A) ...", "B) ...", "C) ...", "D) ...".
+3. After each of my answers, start your reply with ✅ Correct or ❌ Wrong, explain why, then ask the next question.`;
@@ -0,0 +1,52 @@
+import { SavedPrompt } from "../types";
+
+// Saved prompt library. Prompts are small text snippets, so they live in
+// localStorage next to the user settings rather than in the chat database.
+
+const PROMPTS_KEY = 'ayat_saved_prompts';
+
+const PLACEHOLDER_REGEX = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export const loadPrompts = (): SavedPrompt[] => {
+  const stored = localStorage.getItem(PROMPTS_KEY);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error("Failed to parse saved prompts", e);
+    return [];
+  }
+};
+
+export const savePrompts = (prompts: SavedPrompt[]): void => {
+  localStorage.setItem(PROMPTS_KEY, JSON.stringify(prompts));
+};
+
+export const createPrompt = (content: string, title?: string): SavedPrompt => {
+  const firstLine = content.trim().split('\n')[0] || '';
+  return {
+    id: Date.now().toString(),
+    title: title?.trim() || firstLine.slice(0, 40) + (firstLine.length > 40 ? '...' : ''),
+    content,
+    createdAt: Date.now()
+  };
+};
+
+// Unique placeholder names in order of appearance, e.g. "Explain {{topic}} for {{grade}}"
+export const extractPlaceholders = (content: string): string[] => {
+  const names: string[] = [];
+  for (const match of content.matchAll(PLACEHOLDER_REGEX)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+};
+
+export const fillPlaceholders = (content: string, values: Record<string, string>): string =>
+  content.replace(PLACEHOLDER_REGEX, (whole, name: string) => values[name] ?? whole);
+
+export const searchPrompts = (prompts: SavedPrompt[], query: string): SavedPrompt[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return prompts;
+  return prompts.filter(p => p.title.toLowerCase().includes(q) || p.content.toLowerCase().includes(q));
+};
@@ -0,0 +1,51 @@
+import { LLMProvider, ModelId, ModelInfo, ProviderId, UserSettings } from "../types";
+import { geminiProvider } from "./gemini";
+import { mockProvider, MOCK_MODELS } from "./mockProvider";
+import { createOpenAIProvider, parseEndpointModelId } from "./openaiProvider";
+
+// Built-in providers; one of them is the main provider picked in the settings.
+// OpenAI-compatible endpoints are added on top from the user's settings.
+const PROVIDERS: Record<'gemini' | 'mock', LLMProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+export const PROVIDER_LIST: LLMProvider[] = Object.values(PROVIDERS);
+
+// `MOCK_PROVIDER=true npm run dev` starts on the offline provider; a provider
+// chosen in the settings still wins.
+export const DEFAULT_PROVIDER_ID: ProviderId = process.env.MOCK_PROVIDER === 'true' ? 'mock' : 'gemini';
+
+export const getProvider = (id?: ProviderId): LLMProvider => {
+  return (id && PROVIDERS[id as keyof typeof PROVIDERS]) || PROVIDERS[DEFAULT_PROVIDER_ID as keyof typeof PROVIDERS];
+};
+
+// The model id decides who answers, so a reply can be resumed or resent with the
+// model that wrote it even after the main provider changed.
+export const getProviderForModel = (modelId: ModelId, settings?: UserSettings | null): LLMProvider => {
+  const endpointModel = parseEndpointModelId(modelId);
+  if (endpointModel) {
+    const endpoint = settings?.endpoints?.find(e => e.id === endpointModel.endpointId);
+    if (!endpoint) throw new Error("This model's endpoint was removed from the settings");
+    return createOpenAIProvider(endpoint);
+  }
+  if (MOCK_MODELS.some(m => m.id === modelId)) return mockProvider;
+  return geminiProvider;
+};
+
+// Models of the main provider followed by those of every configured endpoint.
+// An unreachable endpoint is skipped instead of emptying the whole menu.
+export const listAllModels = async (settings: UserSettings, refresh = false): Promise<ModelInfo[]> => {
+  const main = getProvider(settings.providerId);
+  const providers = [main, ...(settings.endpoints || []).map(createOpenAIProvider)];
+
+  const lists = await Promise.all(providers.map(provider =>
+    provider.listModels(settings.apiKey, refresh)
+      .then(models => models.map(model => ({ ...model, providerName: model.providerName || provider.name })))
+      .catch(e => {
+        console.error(`Failed to list models of ${provider.name}`, e);
+        return [] as ModelInfo[];
+      })
+  ));
+  return lists.flat();
+};
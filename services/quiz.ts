@@ -0,0 +1,113 @@
+import { Quiz, QuizAttempt, QuizDifficulty, QuizQuestion } from "../types";
+
+// Structured quizzes. The model answers a quiz request in JSON mode with QUIZ_SCHEMA;
+// the parsed quiz is rendered natively (QuizView) and every completed attempt is kept
+// on the session. The message text holds a Markdown copy of the quiz, so history,
+// search and export keep working on text.
+
+const DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+const MIN_OPTIONS = 2;
+
+export const QUIZ_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: 'Short quiz title in the language of the conversation' },
+    questions: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          question: { type: 'string', description: 'Question text; Markdown with $...$ LaTeX for math' },
+          options: { type: 'array', items: { type: 'string' }, minItems: 2, maxItems: 6, description: 'Answer options, without letter prefixes' },
+          correctIndex: { type: 'integer', description: '0-based index of the correct option' },
+          explanation: { type: 'string', description: 'Why the correct option is right and the others are wrong' },
+          difficulty: { type: 'string', enum: DIFFICULTIES },
+          topic: { type: 'string', description: 'Short topic name, e.g. "Quadratic equations"' }
+        },
+        required: ['question', 'options', 'correctIndex', 'explanation', 'difficulty', 'topic']
+      }
+    }
+  },
+  required: ['title', 'questions']
+};
+
+// `request` is the student's wish for this quiz, e.g. "harder questions"
+export const getQuizPrompt = (request?: string): string => `Create a quiz about the topic we are discussing: 5 to 10 NEW multiple-choice questions of mixed difficulty that test understanding, not memorization.
+- Exactly one correct option per question; make the wrong options plausible.
+- Use $...$ LaTeX for every formula, variable and unit.
+- Write in the language the student is using.
+- Reply ONLY with the JSON object, no HTML.${request ? `\n- The student asks for: ${request}` : ''}`;
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isDifficulty = (value: unknown): value is QuizDifficulty => DIFFICULTIES.some(d => d === value);
+
+const parseQuestion = (raw: unknown, index: number): QuizQuestion => {
+  const label = `Question ${index + 1}`;
+  if (!isRecord(raw)) throw new Error(`${label} is not an object`);
+  if (!isNonEmptyString(raw.question)) throw new Error(`${label} has no text`);
+
+  // Dropping a bad option would shift correctIndex, so any bad option rejects the question
+  const options = Array.isArray(raw.options) && raw.options.every(isNonEmptyString) ? raw.options.map(o => o.trim()) : [];
+  const correctIndex = raw.correctIndex;
+  if (options.length < MIN_OPTIONS) throw new Error(`${label} has fewer than ${MIN_OPTIONS} options`);
+  if (typeof correctIndex !== 'number' || !Number.isInteger(correctIndex) || correctIndex < 0 || correctIndex >= options.length) {
+    throw new Error(`${label} has no valid correct answer`);
+  }
+
+  return {
+    question: raw.question.trim(),
+    options,
+    correctIndex,
+    explanation: isNonEmptyString(raw.explanation) ? raw.explanation.trim() : '',
+    difficulty: isDifficulty(raw.difficulty) ? raw.difficulty : 'medium',
+    topic: isNonEmptyString(raw.topic) ? raw.topic.trim() : 'General'
+  };
+};
+
+// Throws with a readable reason when the reply is not a usable quiz
+export const parseQuiz = (text: string): Quiz => {
+  // Models without JSON mode may still wrap the object in a ```json fence
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("The reply is not valid JSON");
+  }
+  if (!isRecord(raw) || !Array.isArray(raw.questions) || raw.questions.length === 0) throw new Error("The quiz has no questions");
+
+  return {
+    title: isNonEmptyString(raw.title) ? raw.title.trim() : 'Quiz',
+    questions: raw.questions.map(parseQuestion)
+  };
+};
+
+const OPTION_LETTERS = 'ABCDEF';
+
+export const getOptionLetter = (index: number): string => OPTION_LETTERS[index] || String(index + 1);
+
+// Markdown copy kept as the message text. Answers are listed at the end, so the model
+// sees them in later turns without the options being rendered as clickable A-D items.
+export const quizToMarkdown = (quiz: Quiz): string => {
+  const questions = quiz.questions.map((q, i) =>
+    `**${i + 1}. ${q.question}**\n\n${q.options.map((option, j) => `${getOptionLetter(j)}. ${option}`).join('  \n')}`
+  ).join('\n\n');
+  const answers = quiz.questions.map((q, i) => `${i + 1}: ${getOptionLetter(q.correctIndex)}`).join(', ');
+  return `## ${quiz.title}\n\n${questions}\n\n*Answers: ${answers}*`;
+};
+
+export const scoreAnswers = (quiz: Quiz, answers: (number | null)[]): number =>
+  quiz.questions.reduce((score, q, i) => score + (answers[i] === q.correctIndex ? 1 : 0), 0);
+
+export const createAttempt = (messageId: string, quiz: Quiz, answers: (number | null)[]): QuizAttempt => ({
+  id: Date.now().toString(36),
+  messageId,
+  answers,
+  score: scoreAnswers(quiz, answers),
+  total: quiz.questions.length,
+  completedAt: Date.now()
+});
@@ -0,0 +1,146 @@
+import { ChatSession, Message } from "../types";
+
+// Full-text search across every session. Text is folded before matching:
+// case and Latin accents are ignored, and for Arabic the diacritics (tashkeel),
+// tatweel and common letter variants (أ/إ/آ → ا, ى → ي, ة → ه ...) are normalized,
+// so "الكَهرَباء" and "الكهرباء" match. Each folded character remembers its index in
+// the original text, so matches can be highlighted in the unmodified message.
+
+export interface SearchMatch {
+  sessionId: string;
+  sessionTitle: string;
+  messageId: string;
+  role: Message['role'];
+  updatedAt: number;
+  snippet: string;
+  highlights: [number, number][]; // [start, end) ranges inside `snippet`
+}
+
+interface IndexedMessage {
+  sessionId: string;
+  sessionTitle: string;
+  updatedAt: number;
+  message: Message;
+  folded: string;
+  sourceIndex: number[]; // sourceIndex[i] = index in message.text of folded[i]
+}
+
+export type SearchIndex = IndexedMessage[];
+
+const SNIPPET_RADIUS = 60;
+const MAX_RESULTS = 100;
+
+// Combining marks (Latin accents) and Arabic diacritics, Quranic marks and tatweel
+const IGNORED_CHARS = /[\u0300-\u036F\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/;
+
+const ARABIC_FOLDING: Record<string, string> = {
+  'أ': 'ا', 'إ': 'ا', 'آ': 'ا', 'ٱ': 'ا',
+  'ى': 'ي', 'ئ': 'ي',
+  'ؤ': 'و',
+  'ة': 'ه'
+};
+
+const foldWithMap = (text: string): { folded: string; sourceIndex: number[] } => {
+  let folded = '';
+  const sourceIndex: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    // Precomposed letters are folded by their base letter; NFD splits off the marks
+    for (const ch of text[i].normalize('NFD')) {
+      if (IGNORED_CHARS.test(ch)) continue;
+      const lower = ch.toLowerCase();
+      folded += ARABIC_FOLDING[lower] || lower;
+      sourceIndex.push(i);
+    }
+  }
+
+  return { folded, sourceIndex };
+};
+
+export const foldText = (text: string): string => foldWithMap(text).folded;
+
+export const buildSearchIndex = (sessions: ChatSession[]): SearchIndex => {
+  const index: SearchIndex = [];
+  sessions.forEach(session => {
+    session.messages.forEach(message => {
+      // Hidden messages are quick-action instructions, not something the user wrote or read
+      if (message.isHidden || message.error || !message.text.trim()) return;
+      index.push({
+        sessionId: session.id,
+        sessionTitle: session.title,
+        updatedAt: session.updatedAt,
+        message,
+        ...foldWithMap(message.text)
+      });
+    });
+  });
+  return index;
+};
+
+const findAll = (haystack: string, needle: string): number[] => {
+  const positions: number[] = [];
+  let pos = haystack.indexOf(needle);
+  while (pos !== -1) {
+    positions.push(pos);
+    pos = haystack.indexOf(needle, pos + needle.length);
+  }
+  return positions;
+};
+
+// Every term of the query must appear in the message (in any order)
+export const searchMessages = (index: SearchIndex, query: string): SearchMatch[] => {
+  const terms = foldText(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const results: SearchMatch[] = [];
+
+  for (const entry of index) {
+    const ranges: [number, number][] = [];
+    let allFound = true;
+
+    for (const term of terms) {
+      const positions = findAll(entry.folded, term);
+      if (positions.length === 0) {
+        allFound = false;
+        break;
+      }
+      positions.forEach(pos => {
+        ranges.push([entry.sourceIndex[pos], entry.sourceIndex[pos + term.length - 1] + 1]);
+      });
+    }
+    if (!allFound) continue;
+
+    ranges.sort((a, b) => a[0] - b[0]);
+    const text = entry.message.text;
+    const first = ranges[0];
+    const start = Math.max(0, first[0] - SNIPPET_RADIUS);
+    const end = Math.min(text.length, first[1] + SNIPPET_RADIUS);
+
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < text.length ? '…' : '';
+    const snippet = prefix + text.slice(start, end).replace(/\s+/g, ' ') + suffix;
+
+    // Whitespace collapsing shifts offsets, so highlight by re-locating within the snippet
+    const highlights: [number, number][] = [];
+    ranges.forEach(([from, to]) => {
+      if (from < start || to > end) return;
+      const matched = text.slice(from, to).replace(/\s+/g, ' ');
+      const before = prefix.length + text.slice(start, from).replace(/\s+/g, ' ').length;
+      highlights.push([before, before + matched.length]);
+    });
+
+    results.push({
+      sessionId: entry.sessionId,
+      sessionTitle: entry.sessionTitle,
+      messageId: entry.message.id,
+      role: entry.message.role,
+      updatedAt: entry.updatedAt,
+      snippet,
+      highlights
+    });
+  }
+
+  return results
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, MAX_RESULTS);
+};
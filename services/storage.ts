@@ -0,0 +1,331 @@
+import { Attachment, ChatSession, Flashcard, Message } from "../types";
+import { getAttachmentMimeType } from "./gemini";
+
+// Chat persistence on IndexedDB. Sessions, messages and attachment blobs live in
+// separate stores so a streaming update only rewrites the message that changed,
+// and attachments are kept as binary blobs instead of base64 strings. Flashcards made
+// from the chats are kept in the same database.
+
+const DB_NAME = 'ayat_bayyinat';
+const DB_VERSION = 2;
+const SAVE_DEBOUNCE_MS = 500;
+
+// Pre-IndexedDB storage, migrated on first load
+const LEGACY_SESSIONS_KEY = 'ayat_chat_sessions';
+
+const SESSIONS_STORE = 'sessions';
+const MESSAGES_STORE = 'messages';
+const ATTACHMENTS_STORE = 'attachments';
+const FLASHCARDS_STORE = 'flashcards';
+
+type StoredSession = Omit<ChatSession, 'messages'>;
+
+interface StoredAttachmentMeta {
+  type: Attachment['type'];
+  mimeType: string;
+  name: string;
+}
+
+// Keyed by [sessionId, id]: message ids are only unique within a session
+interface StoredMessage extends Omit<Message, 'attachments'> {
+  sessionId: string;
+  order: number;
+  attachments?: StoredAttachmentMeta[];
+}
+
+// Keyed by [sessionId, messageId, index]
+interface StoredAttachment {
+  sessionId: string;
+  messageId: string;
+  index: number;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+          db.createObjectStore(MESSAGES_STORE, { keyPath: ['sessionId', 'id'] });
+          db.createObjectStore(ATTACHMENTS_STORE, { keyPath: ['sessionId', 'messageId', 'index'] });
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(FLASHCARDS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+// Arrays sort after strings in IndexedDB, so [id, []] bounds every key prefixed by id
+const prefixRange = (...prefix: string[]) => IDBKeyRange.bound(prefix, [...prefix, []]);
+
+// --- Attachment encoding ---
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Live attachments carry a File; ones parsed from JSON (legacy data, imports) only have base64
+const attachmentToBlob = (att: Attachment): Blob | null => {
+  if (att.file instanceof Blob) return att.file;
+  if (att.base64) return base64ToBlob(att.base64, getAttachmentMimeType(att));
+  return null;
+};
+
+const restoreAttachment = async (meta: StoredAttachmentMeta, blob: Blob): Promise<Attachment> => ({
+  file: new File([blob], meta.name, { type: meta.mimeType }),
+  previewUrl: URL.createObjectURL(blob),
+  type: meta.type,
+  mimeType: meta.mimeType,
+  // Kept in memory so history replay can send it back to Gemini
+  base64: await blobToBase64(blob)
+});
+
+// --- Writing ---
+
+const deleteMessage = (tx: IDBTransaction, sessionId: string, messageId: string) => {
+  tx.objectStore(MESSAGES_STORE).delete([sessionId, messageId]);
+  tx.objectStore(ATTACHMENTS_STORE).delete(prefixRange(sessionId, messageId));
+};
+
+const putMessage = (tx: IDBTransaction, sessionId: string, msg: Message, order: number, withBlobs: boolean) => {
+  const { attachments, ...rest } = msg;
+  const metas: StoredAttachmentMeta[] = [];
+
+  (attachments || []).forEach((att, index) => {
+    const meta: StoredAttachmentMeta = {
+      type: att.type,
+      mimeType: getAttachmentMimeType(att),
+      name: att.file?.name || `attachment-${index + 1}`
+    };
+    metas.push(meta);
+
+    if (withBlobs) {
+      const blob = attachmentToBlob(att);
+      if (blob) {
+        const record: StoredAttachment = { sessionId, messageId: msg.id, index, blob };
+        tx.objectStore(ATTACHMENTS_STORE).put(record);
+      }
+    }
+  });
+
+  const record: StoredMessage = { ...rest, sessionId, order, attachments: metas.length > 0 ? metas : undefined };
+  tx.objectStore(MESSAGES_STORE).put(record);
+};
+
+// Writes only what changed between two snapshots. React state is updated immutably,
+// so an unchanged session or message is the very same object as before.
+const writeDiff = async (previous: Map<string, ChatSession>, sessions: ChatSession[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, MESSAGES_STORE, ATTACHMENTS_STORE], 'readwrite');
+
+  const nextIds = new Set(sessions.map(s => s.id));
+  previous.forEach((_, id) => {
+    if (!nextIds.has(id)) {
+      tx.objectStore(SESSIONS_STORE).delete(id);
+      tx.objectStore(MESSAGES_STORE).delete(prefixRange(id));
+      tx.objectStore(ATTACHMENTS_STORE).delete(prefixRange(id));
+    }
+  });
+
+  for (const session of sessions) {
+    const prev = previous.get(session.id);
+    if (prev === session) continue;
+
+    const { messages, ...meta } = session;
+    const stored: StoredSession = meta;
+    tx.objectStore(SESSIONS_STORE).put(stored);
+
+    const prevMessages = new Map<string, { msg: Message; order: number }>();
+    prev?.messages.forEach((msg, order) => prevMessages.set(msg.id, { msg, order }));
+
+    messages.forEach((msg, order) => {
+      const before = prevMessages.get(msg.id);
+      prevMessages.delete(msg.id);
+      if (before && before.msg === msg && before.order === order) return;
+      // Attachments never change after a message is sent, so blobs are only written for
+      // new messages (or a message replaced wholesale, e.g. by an import)
+      putMessage(tx, session.id, msg, order, !before || before.msg.attachments !== msg.attachments);
+    });
+
+    prevMessages.forEach((_, messageId) => deleteMessage(tx, session.id, messageId));
+  }
+
+  await transactionDone(tx);
+};
+
+// --- Reading ---
+
+const readAll = async (): Promise<ChatSession[]> => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS_STORE, MESSAGES_STORE, ATTACHMENTS_STORE], 'readonly');
+
+  const [storedSessions, storedMessages, storedAttachments] = await Promise.all([
+    requestToPromise(tx.objectStore(SESSIONS_STORE).getAll() as IDBRequest<StoredSession[]>),
+    requestToPromise(tx.objectStore(MESSAGES_STORE).getAll() as IDBRequest<StoredMessage[]>),
+    requestToPromise(tx.objectStore(ATTACHMENTS_STORE).getAll() as IDBRequest<StoredAttachment[]>)
+  ]);
+
+  const blobs = new Map<string, Blob>();
+  storedAttachments.forEach(a => blobs.set(`${a.sessionId}/${a.messageId}/${a.index}`, a.blob));
+
+  const messagesBySession = new Map<string, StoredMessage[]>();
+  storedMessages.forEach(m => {
+    const list = messagesBySession.get(m.sessionId) || [];
+    list.push(m);
+    messagesBySession.set(m.sessionId, list);
+  });
+
+  return Promise.all(storedSessions.map(async (session): Promise<ChatSession> => {
+    const stored = (messagesBySession.get(session.id) || []).sort((a, b) => a.order - b.order);
+
+    const messages = await Promise.all(stored.map(async ({ sessionId, order, attachments, ...msg }): Promise<Message> => {
+      const restored: Message = { ...msg };
+
+      if (attachments && attachments.length > 0) {
+        const loaded = await Promise.all(attachments.map((meta, index) => {
+          const blob = blobs.get(`${sessionId}/${msg.id}/${index}`);
+          return blob ? restoreAttachment(meta, blob) : null;
+        }));
+        restored.attachments = loaded.filter((att): att is Attachment => att !== null);
+      }
+
+      // A reply that was still streaming when the page closed is kept as a stopped one
+      if (restored.isStreaming) {
+        restored.isStreaming = false;
+        restored.isStopped = true;
+        delete restored.statusNotice;
+      }
+      return restored;
+    }));
+
+    return { ...session, messages };
+  }));
+};
+
+const migrateLegacySessions = async (): Promise<void> => {
+  const legacy = localStorage.getItem(LEGACY_SESSIONS_KEY);
+  if (!legacy) return;
+
+  try {
+    const parsed = JSON.parse(legacy);
+    if (Array.isArray(parsed)) {
+      await writeDiff(new Map(), parsed);
+    }
+    localStorage.removeItem(LEGACY_SESSIONS_KEY);
+  } catch (e) {
+    // Leave the legacy data in place so nothing is lost; we retry on the next load
+    console.error("Failed to migrate legacy sessions", e);
+  }
+};
+
+// --- Public API ---
+
+// Snapshot of what is in the database, used to diff the next save against
+let lastSaved = new Map<string, ChatSession>();
+let pendingSessions: ChatSession[] | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | undefined;
+let writeQueue: Promise<void> = Promise.resolve();
+
+const toSnapshot = (sessions: ChatSession[]) => new Map(sessions.map(s => [s.id, s] as [string, ChatSession]));
+
+export const loadSessions = async (): Promise<ChatSession[]> => {
+  await migrateLegacySessions();
+  const sessions = await readAll();
+  lastSaved = toSnapshot(sessions);
+  return sessions;
+};
+
+// Writes are serialized so a slow transaction never races the next snapshot
+export const flushSessions = (): Promise<void> => {
+  clearTimeout(saveTimer);
+  const sessions = pendingSessions;
+  pendingSessions = null;
+  if (!sessions) return writeQueue;
+
+  writeQueue = writeQueue
+    .then(async () => {
+      await writeDiff(lastSaved, sessions);
+      lastSaved = toSnapshot(sessions);
+    })
+    .catch(e => console.error("Failed to save sessions", e));
+  return writeQueue;
+};
+
+// Debounced save: during streaming the sessions change every ~50 ms
+export const saveSessions = (sessions: ChatSession[]): void => {
+  pendingSessions = sessions;
+  clearTimeout(saveTimer);
+  saveTimer = setTimeout(flushSessions, SAVE_DEBOUNCE_MS);
+};
+
+// Attachment previews are object URLs (restored here, imported or picked in the input);
+// revoke the ones whose attachments left the sessions so their blobs can be freed
+export const revokeDroppedAttachments = (previous: ChatSession[], next: ChatSession[]): void => {
+  const nextById = toSnapshot(next);
+  const changed = previous.filter(s => nextById.get(s.id) !== s);
+  if (changed.length === 0) return;
+
+  const kept = new Set<string>();
+  next.forEach(s => s.messages.forEach(m => m.attachments?.forEach(att => kept.add(att.previewUrl))));
+  changed.forEach(s => s.messages.forEach(m => m.attachments?.forEach(att => {
+    if (att.previewUrl?.startsWith('blob:') && !kept.has(att.previewUrl)) {
+      URL.revokeObjectURL(att.previewUrl);
+    }
+  })));
+};
+
+// --- Flashcards ---
+
+export const loadFlashcards = async (): Promise<Flashcard[]> => {
+  const db = await openDb();
+  const tx = db.transaction(FLASHCARDS_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(FLASHCARDS_STORE).getAll() as IDBRequest<Flashcard[]>);
+};
+
+// Cards change one review at a time, so the whole collection is simply rewritten
+export const saveFlashcards = (cards: Flashcard[]): Promise<void> => {
+  writeQueue = writeQueue
+    .then(async () => {
+      const db = await openDb();
+      const tx = db.transaction(FLASHCARDS_STORE, 'readwrite');
+      const store = tx.objectStore(FLASHCARDS_STORE);
+      store.clear();
+      cards.forEach(card => store.put(card));
+      await transactionDone(tx);
+    })
+    .catch(e => console.error("Failed to save flashcards", e));
+  return writeQueue;
+};
@@ -0,0 +1,112 @@
+import { ModelId, TokenUsage } from "../types";
+
+// Token accounting. Each reply keeps its own usage (Message.usage), each chat its
+// running total (ChatSession.usage), and a per-day, per-model log in localStorage
+// feeds the usage dashboard. The log outlives deleted chats on purpose: it is
+// what was actually spent.
+
+const USAGE_LOG_KEY = 'ayat_usage_log';
+const LOG_DAYS = 30;
+
+export interface DailyModelUsage extends TokenUsage {
+  requests: number;
+}
+
+// 'YYYY-MM-DD' (local time) -> model id -> usage
+export type UsageLog = Record<string, Record<string, DailyModelUsage>>;
+
+// USD per million tokens. Thinking tokens are billed as output.
+// Models missing here (free tiers, local endpoints, the mock) have no cost.
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-flash-latest': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-flash-lite-latest': { input: 0.1, output: 0.4 },
+};
+
+// Models whose price justifies a budget check before sending
+const EXPENSIVE_INPUT_PRICE = 1;
+
+export const addUsage = (a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage => ({
+  promptTokens: (a?.promptTokens || 0) + (b?.promptTokens || 0),
+  responseTokens: (a?.responseTokens || 0) + (b?.responseTokens || 0),
+  thinkingTokens: (a?.thinkingTokens || 0) + (b?.thinkingTokens || 0),
+});
+
+export const getTotalTokens = (usage?: TokenUsage): number => {
+  if (!usage) return 0;
+  return usage.promptTokens + usage.responseTokens + usage.thinkingTokens;
+};
+
+export const getModelPrice = (modelId: ModelId): ModelPrice | undefined => MODEL_PRICES[modelId];
+
+export const isExpensiveModel = (modelId: ModelId): boolean => (getModelPrice(modelId)?.input || 0) >= EXPENSIVE_INPUT_PRICE;
+
+export const estimateCost = (modelId: ModelId, usage: TokenUsage): number => {
+  const price = getModelPrice(modelId);
+  if (!price) return 0;
+  return (usage.promptTokens * price.input + (usage.responseTokens + usage.thinkingTokens) * price.output) / 1000000;
+};
+
+// "950", "12.3k", "1.2M"
+export const formatTokens = (tokens: number): string => {
+  if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`;
+  return String(tokens);
+};
+
+export const formatCost = (usd: number): string => {
+  if (usd === 0) return '$0';
+  return usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+};
+
+export const getDayKey = (date: Date = new Date()): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const loadUsageLog = (): UsageLog => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(USAGE_LOG_KEY) || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (e) {
+    console.error("Failed to load usage log", e);
+    return {};
+  }
+};
+
+// Adds one request to today's entry and drops days older than LOG_DAYS
+export const recordUsage = (modelId: ModelId, usage: TokenUsage): UsageLog => {
+  const log = loadUsageLog();
+  const today = getDayKey();
+  const day = log[today] || {};
+  const previous = day[modelId];
+
+  day[modelId] = { ...addUsage(previous, usage), requests: (previous?.requests || 0) + 1 };
+  log[today] = day;
+
+  const days = Object.keys(log).sort();
+  days.slice(0, Math.max(0, days.length - LOG_DAYS)).forEach(d => delete log[d]);
+
+  try {
+    localStorage.setItem(USAGE_LOG_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.error("Failed to save usage log", e);
+  }
+  return log;
+};
+
+export const clearUsageLog = () => {
+  localStorage.removeItem(USAGE_LOG_KEY);
+};
+
+export const getDayCost = (log: UsageLog, day: string = getDayKey()): number => {
+  return Object.entries(log[day] || {}).reduce((sum, [modelId, usage]) => sum + estimateCost(modelId, usage), 0);
+};
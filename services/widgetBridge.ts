@@ -0,0 +1,128 @@
+// Two-way postMessage bridge between HTML widgets (quizzes and simulations) and the chat.
+//
+// Widget → app, with window.parent.postMessage(message, '*'):
+//   { type: 'ayat:answer', option: string, correct: boolean, topic?: string }
+//       One answered question; logged for the progress dashboard.
+//   { type: 'ayat:score', score: number, total: number, topic?: string }
+//       The final quiz score; sent to the chat so the tutor can go over the mistakes.
+//   { type: 'ayat:ask', question: string }
+//       A follow-up question ("Explain why answer C is wrong"), sent as the student's message.
+//   { type: 'ayat:variant', request?: string }
+//       Asks for a new version of the widget, optionally with a wish ("harder", "with friction").
+//   Every message may carry an `id` string, which is echoed in the acknowledgement.
+//
+// App → widget, posted to the widget's window:
+//   { type: 'ayat:ready', version }                 once the widget has loaded
+//   { type: 'ayat:ack', id?, ok: true }              the message was handled
+//   { type: 'ayat:ack', id?, ok: false, error }      it was malformed, throttled or not available
+//
+// Messages are only taken from the widget's own frame, with the sandbox's origin, and
+// must match the shapes above. Chat actions and answers are throttled, and answers are
+// capped per widget, so a widget cannot flood the chat or the progress log.
+
+export const BRIDGE_VERSION = 1;
+export const ACTION_COOLDOWN_MS = 3000;
+// Faster than anyone answers; each answer rewrites the stored progress log
+export const ANSWER_COOLDOWN_MS = 1000;
+export const MAX_ANSWERS_PER_WIDGET = 100;
+
+const MESSAGE_PREFIX = 'ayat:';
+const MAX_TEXT_LENGTH = 1000;
+const MAX_TOPIC_LENGTH = 100;
+
+export type WidgetMessage =
+  | { type: 'ayat:answer'; id?: string; option: string; correct: boolean; topic?: string }
+  | { type: 'ayat:score'; id?: string; score: number; total: number; topic?: string }
+  | { type: 'ayat:ask'; id?: string; question: string }
+  | { type: 'ayat:variant'; id?: string; request?: string };
+
+export type WidgetActionMessage = Exclude<WidgetMessage, { type: 'ayat:answer' }>;
+
+export interface WidgetReply {
+  type: 'ayat:ready' | 'ayat:ack';
+  version?: number;
+  id?: string;
+  ok?: boolean;
+  error?: string;
+}
+
+// Widgets run without allow-same-origin (see htmlSandbox), so their origin is opaque
+export const isWidgetOrigin = (origin: string): boolean => origin === 'null';
+
+const optionalText = (value: unknown, maxLength: number): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : undefined;
+
+const requiredText = (value: unknown, field: string): string => {
+  const text = optionalText(value, MAX_TEXT_LENGTH);
+  if (!text) throw new Error(`"${field}" must be a non-empty string`);
+  return text;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isWholeNumber = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+
+// The `id` to echo back, also for messages that failed to parse
+export const getMessageId = (data: unknown): string | undefined =>
+  isRecord(data) ? optionalText(data.id, MAX_TOPIC_LENGTH) : undefined;
+
+// Returns null for messages that are not for the bridge; throws with a readable reason
+// when a bridge message is malformed, so the widget can be told
+export const parseWidgetMessage = (data: unknown): WidgetMessage | null => {
+  if (!isRecord(data) || typeof data.type !== 'string' || !data.type.startsWith(MESSAGE_PREFIX)) return null;
+  const id = getMessageId(data);
+  const topic = optionalText(data.topic, MAX_TOPIC_LENGTH);
+  const { score, total } = data;
+
+  switch (data.type) {
+    case 'ayat:answer':
+      if (typeof data.correct !== 'boolean') throw new Error('"correct" must be true or false');
+      return { type: data.type, id, option: requiredText(data.option, 'option'), correct: data.correct, topic };
+    case 'ayat:score':
+      if (!isWholeNumber(total) || total <= 0 || !isWholeNumber(score) || score < 0 || score > total) {
+        throw new Error('"score" and "total" must be whole numbers with 0 <= score <= total');
+      }
+      return { type: data.type, id, score, total, topic };
+    case 'ayat:ask':
+      return { type: data.type, id, question: requiredText(data.question, 'question') };
+    case 'ayat:variant':
+      return { type: data.type, id, request: optionalText(data.request, MAX_TEXT_LENGTH) };
+    default:
+      throw new Error(`Unknown message type "${data.type}"`);
+  }
+};
+
+export const createReady = (): WidgetReply => ({ type: 'ayat:ready', version: BRIDGE_VERSION });
+
+export const createAck = (id: string | undefined, error?: string): WidgetReply =>
+  error ? { type: 'ayat:ack', id, ok: false, error } : { type: 'ayat:ack', id, ok: true };
+
+// The chat message a widget action becomes. Variants are hidden; ChatMessage sends quiz
+// variants as a structured quiz instead when the chat can make one.
+export const getWidgetAction = (message: WidgetActionMessage, isQuiz: boolean): { text: string; isHidden: boolean } => {
+  switch (message.type) {
+    case 'ayat:score':
+      return {
+        text: `I finished the quiz${message.topic ? ` on ${message.topic}` : ''} with ${message.score}/${message.total}. Go over what I should review.`,
+        isHidden: false
+      };
+    case 'ayat:ask':
+      return { text: message.question, isHidden: false };
+    case 'ayat:variant': {
+      const wish = message.request ? ` (${message.request})` : '';
+      return {
+        text: isQuiz
+          ? `Generate another different quiz about this topic${wish} (QZ)`
+          : `Create another variant of this interactive simulation about the same topic${wish}`,
+        isHidden: true
+      };
+    }
+  }
+};
+
+// How generated widgets use the bridge, for the system instruction
+export const WIDGET_BRIDGE_PROMPT = `WIDGET BRIDGE (HTML widgets can talk to the chat with window.parent.postMessage(message, '*')):
+- Quiz, after each answer: { type: 'ayat:answer', topic: '<short topic of the question>', option: '<chosen option text>', correct: true or false }
+- Quiz, when finished: { type: 'ayat:score', score: <correct answers>, total: <questions>, topic: '<topic>' }
+- "Ask the tutor" buttons (e.g. "Why is C wrong?"): { type: 'ayat:ask', question: '<the full question>' }
+- A "New variant" button: { type: 'ayat:variant', request: '<optional wish, e.g. harder>' }`;
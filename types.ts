@@ -3,29 +3,162 @@ export interface Attachment {
   previewUrl: string;
   type: 'image' | 'audio' | 'pdf' | 'other';
   base64?: string;
+  mimeType?: string;
 }
 
 export type GeminiModelId = 'gemini-3-pro-preview' | 'gemini-2.0-pro-exp-02-05' | 'gemini-2.5-flash' | 'gemini-flash-lite-latest';
 
+// Any provider's model id; Gemini ids are only the best-known subset
+export type ModelId = GeminiModelId | (string & {});
+
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+  thinkingTokens: number;
+}
+
 export interface Message {
   id: string;
+  parentId?: string | null; // Previous turn in the conversation tree (null = first turn). Older chats omit it: the previous message in the list is the parent
   role: 'user' | 'model';
   text: string;
   isStreaming?: boolean;
   error?: boolean;
+  isStopped?: boolean; // Generation was cancelled by the user; text holds the partial answer
+  finishReason?: string; // Finish reason reported by the stream (e.g. 'STOP', 'MAX_TOKENS')
   isHidden?: boolean;
   attachments?: Attachment[];
-  modelId?: GeminiModelId; // Track which model generated this
+  modelId?: ModelId; // Track which model generated this
+  fallbackFrom?: ModelId; // Model the turn was sent to when another one of the fallback chain answered
+  fallbackReason?: string; // Why that model did not answer (e.g. '429')
+  statusNotice?: string; // Shown while a retry, fallback or context compression is pending; cleared when the reply ends
+  usage?: TokenUsage; // Tokens of the request(s) that produced this reply, continuations included
+  thoughts?: string; // Thought summaries the model streamed before/while answering
+  blockReason?: string; // Why the prompt or the reply was blocked (e.g. 'SAFETY: DANGEROUS_CONTENT (HIGH)')
+  useSearch?: boolean; // User turn: answer with Google Search grounding
+  grounding?: Grounding; // Model turn: the web sources the answer was grounded on
+  quizRequest?: boolean; // User turn: asks for a structured quiz (JSON reply)
+  quiz?: Quiz; // Model turn: the structured quiz; text then holds a Markdown copy for history and export
+}
+
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface QuizQuestion {
+  question: string; // Markdown with $LaTeX$
+  options: string[];
+  correctIndex: number;
+  explanation: string;
+  difficulty: QuizDifficulty;
+  topic: string;
+}
+
+export interface Quiz {
+  title: string;
+  questions: QuizQuestion[];
 }
 
-export interface ChatSession {
+export interface QuizAttempt {
   id: string;
+  messageId: string; // Model turn holding the quiz
+  answers: (number | null)[]; // Chosen option per question (null = skipped)
+  score: number;
+  total: number;
+  completedAt: number;
+}
+
+// Where an answer was given: a native quiz, an HTML widget, or an A-D option button in a reply
+export type AnswerSource = 'quiz' | 'widget' | 'option';
+
+export interface AnswerEvent {
+  id: string;
+  sessionId: string;
+  messageId?: string; // Model turn the question was in
+  source: AnswerSource;
+  topic: string;
+  option: string; // The chosen answer, as shown
+  correct?: boolean; // Unknown until the tutor's reply for option buttons
+  answeredAt: number;
+}
+
+// An answer as reported from a reply; the app adds the session, time and default topic
+export type AnswerReport = Pick<AnswerEvent, 'source' | 'option' | 'correct'> & { topic?: string };
+
+export interface GroundingSource {
+  uri: string;
   title: string;
-  messages: Message[];
+}
+
+// A passage of the answer and the sources (indices into Grounding.sources) that support it.
+// The passage text is kept instead of offsets: Gemini reports UTF-8 byte offsets.
+export interface GroundingCitation {
+  text: string;
+  sources: number[];
+}
+
+export interface Grounding {
+  sources: GroundingSource[];
+  citations: GroundingCitation[];
+  queries?: string[]; // What the model searched for
+}
+
+export type FlashcardKind = 'term' | 'formula';
+
+// Spaced-repetition card, scheduled with SM-2. Stored in IndexedDB next to the chats.
+export interface Flashcard {
+  id: string;
+  deck: string; // Deck name: the title of the chat the card came from
+  kind: FlashcardKind;
+  front: string; // Term, or what the formula gives; Markdown with $LaTeX$
+  back: string; // Definition, or the formula
+  sessionId?: string; // Chat the card was made from
+  createdAt: number;
+  repetitions: number; // Successful reviews in a row
+  interval: number; // Days until the next review
+  easeFactor: number;
+  dueAt: number; // Local midnight of the day the card is due
+  lastReviewedAt?: number;
+}
+
+export type SafetyThreshold = 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE';
+
+// Sampling and safety settings of a chat; unset fields use the model's defaults
+export interface GenerationSettings {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number; // Includes thinking tokens on Gemini thinking models
+  safetyThreshold?: SafetyThreshold; // Applied to every harm category
+}
+
+export interface ChatSession extends GenerationSettings {
+  id: string;
+  title: string;
+  messages: Message[]; // Every turn of every branch, in creation order
+  branchSelections?: Record<string, string>; // Parent id ('' for the first turn) -> selected child id; defaults to the newest child
   updatedAt: number;
-  lastModelId?: GeminiModelId;
+  lastModelId?: ModelId;
+  usage?: TokenUsage; // Running total of every reply in the chat, deleted ones included
+  contextSummaries?: Record<string, string>; // Last summarized message id -> summary sent instead of the turns up to it
+  thinkingBudget?: number; // Thinking tokens per reply for this chat (0 = off); unset = the model decides
+  persona?: SessionPersona; // Chosen when the chat starts (its temperature becomes the chat's); unset = the general tutor
+  quizAttempts?: QuizAttempt[]; // Completed structured quizzes, oldest first
+  practiceTopic?: string; // Set on "practice my weakest topic" chats; answers here count for this topic
+}
+
+// Tutor persona: extra system instructions plus generation defaults.
+// Built-in personas ship with the app, custom ones are kept in localStorage.
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  instructions: string;
+  defaultModel?: ModelId;
+  temperature?: number;
+  isBuiltIn?: boolean;
 }
 
+// Copy kept on the session, so editing or deleting a persona does not change existing chats
+export type SessionPersona = Pick<Persona, 'id' | 'name' | 'instructions'>;
+
 export interface SavedPrompt {
   id: string;
   title: string;
@@ -33,9 +166,73 @@ export interface SavedPrompt {
   createdAt: number;
 }
 
+// OpenAI-compatible endpoints are configured by the user, so their ids are built from the endpoint id
+export type ProviderId = 'gemini' | 'mock' | `openai:${string}`;
+
+export interface OpenAIEndpoint {
+  id: string;
+  name: string;
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  apiKey: string; // Optional for local servers
+  models: string[]; // Empty = ask the endpoint's /models
+  supportsImages?: boolean; // Send image attachments as image_url parts
+}
+
+export interface ModelCapabilities {
+  vision?: boolean; // Accepts image (and PDF) attachments
+  audio?: boolean; // Accepts audio attachments
+  thinking?: boolean; // Reasons before answering
+  contextWindow?: number; // Input token limit
+  search?: boolean; // Can ground answers with Google Search
+}
+
+export interface ModelInfo {
+  id: ModelId;
+  name: string;
+  description: string;
+  providerName?: string; // Shown as the group label in the model menu
+  capabilities?: ModelCapabilities;
+}
+
+// Provider-neutral piece of a streamed reply
+export interface StreamChunk {
+  text: string;
+  finishReason?: string; // e.g. 'STOP', 'MAX_TOKENS'
+  usage?: TokenUsage; // Usage so far; the last chunk that has it holds the request's total
+  thought?: string; // Reasoning text, kept apart from the answer
+  blockReason?: string; // Set when the prompt or the reply was blocked by a safety filter
+  grounding?: Grounding; // Sources reported with this chunk
+}
+
+export interface ChatRequest extends GenerationSettings {
+  modelId: ModelId;
+  apiKey: string;
+  history: Message[]; // The selected branch before `message`
+  message: string;
+  attachments?: Attachment[];
+  signal?: AbortSignal; // Cancels the request; the stream then ends or throws
+  thinkingBudget?: number; // Providers that cannot set it ignore it
+  instructions?: string; // Persona instructions added to the system instruction
+  useSearch?: boolean; // Enable the Google Search tool; providers without it ignore it
+  responseSchema?: Record<string, unknown>; // JSON schema the reply must follow (JSON mode)
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  name: string;
+  requiresApiKey: boolean;
+  listModels: (apiKey: string, refresh?: boolean) => Promise<ModelInfo[]>; // `refresh` skips any cached list
+  streamMessage: (request: ChatRequest) => AsyncGenerator<StreamChunk>;
+  sendMessage: (request: ChatRequest) => Promise<StreamChunk>;
+}
+
 export interface UserSettings {
   apiKey: string;
   userName: string;
+  providerId?: ProviderId; // Defaults to Gemini (or the mock provider with MOCK_PROVIDER=true)
+  endpoints?: OpenAIEndpoint[]; // Extra OpenAI-compatible backends; their models join the model menu
+  fallbackChain?: ModelId[]; // Models tried in order when the selected one is busy; defaults to DEFAULT_FALLBACK_CHAIN
+  dailyBudgetUsd?: number; // Soft limit: sending to an expensive model past it asks for confirmation
 }
 
 export interface ChatState {
@@ -0,0 +1,11 @@
+// Helpers shared by message rendering and conversation export
+
+export const getTextDirection = (text: string): 'rtl' | 'ltr' => {
+  const arabicRegex = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
+  return arabicRegex.test(text) ? 'rtl' : 'ltr';
+};
+
+// Splits text around ```html blocks: even indexes are Markdown, odd indexes are HTML code.
+// A trailing unterminated block (still streaming, or cut off) becomes the last odd part,
+// followed by an empty text part.
+export const splitHtmlBlocks = (text: string): string[] => text.split(/```html([\s\S]*?)(?:```|$)/);